@@ -0,0 +1,157 @@
+import type {
+  FlowManager,
+  FlowOptions,
+  FlowResult,
+  FlowStatus,
+  OnboardingStep,
+} from './flow'
+import type { PointerOptions } from './pointer'
+
+// Shared by the React and Vue adapters, not part of the core entry.
+
+/**
+ * Options of the `useOnboarding` hook and composable.
+ */
+export interface UseOnboardingOptions {
+  /** Pointer options, used unless the flow comes from an OnboardingProvider */
+  pointerOptions?: PointerOptions
+  /** Flow options, used unless the flow comes from an OnboardingProvider */
+  flowOptions?: FlowOptions
+  /** Start the flow when the component mounts (default: false) */
+  autoStart?: boolean
+}
+
+/**
+ * Commands returned by `useOnboarding`.
+ */
+export interface FlowControls {
+  /** Start the flow with the component's steps */
+  start: (startAt?: number) => void
+  /** Stop the flow */
+  stop: () => void
+  /** Move to the next step */
+  next: () => void
+  /** Move to the previous step */
+  back: () => void
+  /** Jump to a step by index or id */
+  goTo: (target: number | string) => void
+}
+
+/**
+ * A flow and the component whose steps it currently runs.
+ * Providers share one between all components below them.
+ */
+export interface SharedFlow {
+  flow: FlowManager
+  owner: object | null
+}
+
+/**
+ * Keeps component state in sync with a flow.
+ */
+export interface FlowWatcher {
+  /** Report the current state, call it after commands */
+  sync: () => void
+  /** Stop watching */
+  stop: () => void
+}
+
+/**
+ * Report the status and step of a flow whenever a step is shown or the flow ends.
+ * @param flow Flow to watch
+ * @param update Callback receiving the status and step index
+ */
+export function watchFlow(
+  flow: FlowManager,
+  update: (status: FlowStatus, step: number) => void,
+): FlowWatcher {
+  let active = true
+  let watched: Promise<FlowResult> | null = null
+  const sync = () => {
+    if (!active) return
+    update(flow.status, flow.currentStep)
+    // Every run has its own promise
+    if (flow.finished !== watched) {
+      watched = flow.finished
+      watched.then(sync)
+    }
+  }
+  const off = flow.on('stepShown', sync)
+  sync()
+  return {
+    sync,
+    stop: () => {
+      active = false
+      off()
+    },
+  }
+}
+
+/**
+ * Commands running a component's steps on a possibly shared flow.
+ * @param shared Flow and its current owner
+ * @param owner Identity of the component
+ * @param getSteps Returns the latest steps of the component
+ * @param sync Called after every command
+ */
+export function createControls(
+  shared: SharedFlow,
+  owner: object,
+  getSteps: () => OnboardingStep[],
+  sync: () => void,
+): FlowControls {
+  const { flow } = shared
+  return {
+    start: (startAt = 0) => {
+      shared.owner = owner
+      flow.start(getSteps(), startAt)
+      sync()
+    },
+    stop: () => {
+      flow.stop()
+      sync()
+    },
+    next: () => {
+      flow.next()
+      sync()
+    },
+    back: () => {
+      flow.back()
+      sync()
+    },
+    goTo: (target) => {
+      flow.goTo(target)
+      sync()
+    },
+  }
+}
+
+/**
+ * Destroy a flow when its component unmounts. Unmounting is no dismissal,
+ * so StrictMode remounts and route changes do not count for `showOnce`.
+ * @param flow Flow of the component or provider
+ */
+export function disposeFlow(flow: FlowManager): void {
+  flow.cancel()
+  flow.destroy()
+}
+
+/**
+ * Clean up when a component unmounts: its own flow is destroyed, a shared
+ * flow is only cancelled if it runs the component's steps.
+ * @param shared Flow and its current owner
+ * @param owner Identity of the component
+ * @param owned Whether the component created the flow
+ */
+export function releaseFlow(
+  shared: SharedFlow,
+  owner: object,
+  owned: boolean,
+): void {
+  if (owned) {
+    disposeFlow(shared.flow)
+  } else if (shared.owner === owner) {
+    shared.owner = null
+    shared.flow.cancel()
+  }
+}
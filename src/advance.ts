@@ -0,0 +1,191 @@
+import {
+  describeTarget,
+  resolveElement,
+  SELECTOR_CHAIN,
+  type ElementTarget,
+} from './dom'
+
+/**
+ * What makes a step advance, besides note buttons, keys and `next()`:
+ * - an event name: that DOM event on the target, e.g. "click" (the default) or "focus"
+ * - `"manual"`: nothing else, only buttons, keys and the API
+ * - `{ event, element? }`: a DOM event on the target or another element
+ * - `{ input, element? }`: the value of the target or another field matches a
+ *   regular expression (strings are its source) or a predicate
+ * - `{ appear }` / `{ disappear }`: an element is added to or removed from the page
+ * - `{ url }`: the URL matches a path, a regular expression or a predicate
+ * - `{ custom }`: a custom event with this name is dispatched on `window`
+ * - `{ delay }`: time in ms after the step is shown
+ */
+export type AdvanceTrigger =
+  | 'manual'
+  | (string & {})
+  | { event: string; element?: ElementTarget }
+  | {
+      input: string | RegExp | ((value: string) => boolean)
+      element?: ElementTarget
+    }
+  | { appear: ElementTarget }
+  | { disappear: ElementTarget }
+  | { url: string | RegExp | ((url: URL) => boolean) }
+  | { custom: string }
+  | { delay: number }
+
+/**
+ * One trigger, or several of which the first to fire advances the step.
+ */
+export type AdvanceOn = AdvanceTrigger | AdvanceTrigger[]
+
+/**
+ * Listen for the triggers of a step until the signal aborts.
+ * @param advanceOn Triggers of the step
+ * @param target Step target, or null when the note is shown centered
+ * @param advance Called once when a trigger fires
+ * @param signal Aborted when the step is left, removing every listener
+ */
+export function watchAdvance(
+  advanceOn: AdvanceOn,
+  target: HTMLElement | null,
+  advance: () => void,
+  signal: AbortSignal,
+): void {
+  if (signal.aborted) return
+  const fire = () => {
+    if (!signal.aborted) advance()
+  }
+  const triggers = Array.isArray(advanceOn) ? advanceOn : [advanceOn]
+  for (const trigger of triggers) {
+    if (signal.aborted) return
+    watchTrigger(trigger, target, fire, signal)
+  }
+}
+
+function watchTrigger(
+  trigger: AdvanceTrigger,
+  target: HTMLElement | null,
+  fire: () => void,
+  signal: AbortSignal,
+) {
+  if (trigger === 'manual') return
+  if (typeof trigger === 'string') {
+    target?.addEventListener(trigger, fire, { signal })
+    return
+  }
+  if ('event' in trigger) {
+    const el = getElement(trigger.element, target)
+    el?.addEventListener(trigger.event, fire, { signal })
+  } else if ('input' in trigger) {
+    const el = getElement(trigger.element, target)
+    const matches = toPredicate(trigger.input)
+    const check = () => {
+      if (el && matches(getValue(el))) fire()
+    }
+    el?.addEventListener('input', check, { signal })
+    el?.addEventListener('change', check, { signal })
+  } else if ('appear' in trigger) {
+    const selector = trigger.appear
+    watchCondition(() => !!resolveElement(selector), selector, fire, signal)
+  } else if ('disappear' in trigger) {
+    const selector = trigger.disappear
+    watchCondition(() => !resolveElement(selector), selector, fire, signal)
+  } else if ('url' in trigger) {
+    watchURL(trigger.url, fire, signal)
+  } else if ('custom' in trigger) {
+    window.addEventListener(trigger.custom, fire, { signal })
+  } else if ('delay' in trigger) {
+    const timeoutId = setTimeout(fire, trigger.delay)
+    signal.addEventListener('abort', () => clearTimeout(timeoutId), {
+      once: true,
+    })
+  }
+}
+
+function getElement(
+  element: ElementTarget | undefined,
+  target: HTMLElement | null,
+): HTMLElement | null {
+  if (element === undefined) return target
+  const el = resolveElement(element)
+  if (!el) {
+    console.warn(
+      `[PointerJS] Element not found for advanceOn ${describeTarget(element)}.`,
+    )
+  }
+  return el
+}
+
+function getValue(el: HTMLElement): string {
+  if (
+    el instanceof HTMLInputElement ||
+    el instanceof HTMLTextAreaElement ||
+    el instanceof HTMLSelectElement
+  ) {
+    return el.value
+  }
+  return el.textContent ?? ''
+}
+
+function toPredicate(
+  test: string | RegExp | ((value: string) => boolean),
+): (value: string) => boolean {
+  if (typeof test === 'function') return test
+  const pattern = typeof test === 'string' ? new RegExp(test) : test
+  return (value) => pattern.test(value)
+}
+
+// Check after DOM mutations, or on an interval where mutations are not observable
+function watchCondition(
+  condition: () => boolean,
+  selector: ElementTarget,
+  fire: () => void,
+  signal: AbortSignal,
+) {
+  const check = () => {
+    if (condition()) fire()
+  }
+  if (
+    typeof MutationObserver === 'undefined' ||
+    typeof selector === 'function' ||
+    selector.includes(SELECTOR_CHAIN)
+  ) {
+    const intervalId = setInterval(check, 100)
+    signal.addEventListener('abort', () => clearInterval(intervalId), {
+      once: true,
+    })
+  } else {
+    const observer = new MutationObserver(check)
+    observer.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+    })
+    signal.addEventListener('abort', () => observer.disconnect(), {
+      once: true,
+    })
+  }
+  check()
+}
+
+// History API changes fire no event, so poll besides popstate and hashchange
+function watchURL(
+  test: string | RegExp | ((url: URL) => boolean),
+  fire: () => void,
+  signal: AbortSignal,
+) {
+  const check = () => {
+    const url = new URL(window.location.href)
+    const matches =
+      typeof test === 'function'
+        ? test(url)
+        : typeof test === 'string'
+          ? url.pathname === test || url.href === test
+          : test.test(url.href)
+    if (matches) fire()
+  }
+  window.addEventListener('popstate', check, { signal })
+  window.addEventListener('hashchange', check, { signal })
+  const intervalId = setInterval(check, 100)
+  signal.addEventListener('abort', () => clearInterval(intervalId), {
+    once: true,
+  })
+}
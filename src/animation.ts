@@ -0,0 +1,105 @@
+/**
+ * Built-in easing presets.
+ */
+export type EasingName = 'linear' | 'ease' | 'cubic' | 'spring'
+
+/**
+ * Easing preset name, or a function mapping progress (0-1) to eased progress.
+ */
+export type Easing = EasingName | ((t: number) => number)
+
+/**
+ * Shape of the path the pointer follows: a straight line, an arc, or a
+ * curve that resembles a hand movement.
+ */
+export type PathMode = 'straight' | 'arc' | 'curve'
+
+/**
+ * A point in viewport coordinates.
+ */
+export interface Point {
+  x: number
+  y: number
+}
+
+const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  ease: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  cubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  // Damped oscillation that overshoots and settles exactly at 1
+  spring: (t) => 1 - Math.cos(t * 4.5 * Math.PI) * Math.exp(-t * 6),
+}
+
+/**
+ * Get the easing function for a preset name or custom function.
+ * @param easing Easing preset or function
+ */
+export function resolveEasing(easing: Easing): (t: number) => number {
+  if (typeof easing === 'function') return easing
+  return EASINGS[easing] ?? EASINGS.ease
+}
+
+/**
+ * Get the point at progress t along the path between two points.
+ * @param from Start point
+ * @param to End point
+ * @param t Eased progress, usually 0-1
+ * @param mode Path shape
+ */
+export function pathPoint(
+  from: Point,
+  to: Point,
+  t: number,
+  mode: PathMode,
+): Point {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const length = Math.hypot(dx, dy)
+  if (mode === 'straight' || length === 0) {
+    return { x: from.x + dx * t, y: from.y + dy * t }
+  }
+  // Unit normal to the movement, pointing up so paths bow like a raised hand
+  let nx = dy / length
+  let ny = -dx / length
+  if (ny > 0) {
+    nx = -nx
+    ny = -ny
+  }
+  const u = 1 - t
+  if (mode === 'arc') {
+    // Quadratic Bézier through a control point above the midpoint
+    const cx = from.x + dx / 2 + nx * length * 0.25
+    const cy = from.y + dy / 2 + ny * length * 0.25
+    return {
+      x: u * u * from.x + 2 * u * t * cx + t * t * to.x,
+      y: u * u * from.y + 2 * u * t * cy + t * t * to.y,
+    }
+  }
+  // Cubic Bézier that leaves off-axis and straightens out near the target
+  const c1x = from.x + dx * 0.2 + nx * length * 0.3
+  const c1y = from.y + dy * 0.2 + ny * length * 0.3
+  const c2x = from.x + dx * 0.9 + nx * length * 0.05
+  const c2y = from.y + dy * 0.9 + ny * length * 0.05
+  return {
+    x:
+      u * u * u * from.x +
+      3 * u * u * t * c1x +
+      3 * u * t * t * c2x +
+      t * t * t * to.x,
+    y:
+      u * u * u * from.y +
+      3 * u * u * t * c1y +
+      3 * u * t * t * c2y +
+      t * t * t * to.y,
+  }
+}
+
+/**
+ * Whether the user asked the system to minimize motion.
+ */
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  )
+}
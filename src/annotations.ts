@@ -0,0 +1,452 @@
+import {
+  renderNote,
+  sanitizeHTML,
+  type NoteAction,
+  type NoteContent,
+  type Sanitizer,
+} from './content'
+import { getViewportRect, resolveElement, type ElementTarget } from './dom'
+import { assertBrowser } from './env'
+import { Emitter } from './events'
+import { resolveMessages, type Messages } from './i18n'
+import { createLayer, LayoutWatcher } from './layer'
+import { computePlacement, type Placement } from './placement'
+import {
+  orientShape,
+  pointerStyles,
+  renderPointerShape,
+  resolvePointerShape,
+  type PointerShape,
+  type PointerStyle,
+} from './shapes'
+import { noteStyles, type Theme } from './theme'
+import type { Point } from './animation'
+
+/**
+ * A labeled marker: a pointer on an element, with an optional note.
+ */
+export interface Annotation {
+  /** Unique id, used to update, remove and connect the annotation */
+  id: string
+  /** CSS selector, chained selector or resolver function for the target element */
+  element: ElementTarget
+  note?: NoteContent
+  /** Where the pointer and note go relative to the element (default: AnnotationsOptions.placement) */
+  placement?: Placement
+  /** Pointer shape (default: AnnotationsOptions.pointerStyle) */
+  pointerStyle?: PointerStyle | PointerShape
+  /** Color of the pointer, its connectors and, without a theme, its note */
+  color?: string
+  /** Ids of annotations to draw a connector line to, or "pointer" for the target of the host's pointer */
+  connectTo?: string | string[]
+}
+
+/**
+ * Options for the annotations layer.
+ */
+export interface AnnotationsOptions {
+  color?: string
+  fontFamily?: string
+  fontSize?: string
+  /** Note color preset (default: notes use the pointer color) */
+  theme?: Theme
+  /** Pointer size in px (default: 32) */
+  pointerSize?: number
+  /** Pointer shape of all annotations (default: "arrow") */
+  pointerStyle?: PointerStyle | PointerShape
+  /** Where pointers and notes go relative to their element (default: "bottom-end") */
+  placement?: Placement
+  /** Rotate shapes towards their element instead of mirroring them (default: false) */
+  rotate?: boolean
+  /** Draw connectors as dashed lines (default: false) */
+  dashedConnectors?: boolean
+  /** Sanitizer for `html` note content, or false to trust it (default: built-in sanitizer) */
+  sanitize?: Sanitizer | false
+  /** BCP 47 language tag for built-in labels */
+  locale?: string
+  /** Overrides of built-in labels */
+  messages?: Partial<Messages>
+}
+
+/**
+ * A layer that shows annotations along with its own pointer, e.g. a Pointer.
+ */
+export interface AnnotationsHost {
+  /** Shadow root the annotations are rendered in */
+  root: ShadowRoot
+  /** Element the host's pointer points at, connected to with `connectTo: "pointer"` */
+  target: () => HTMLElement | null
+}
+
+/**
+ * Events emitted by an Annotations layer.
+ */
+export type AnnotationsEvents = {
+  /** A note button was clicked */
+  action: (id: string, action: NoteAction) => void
+}
+
+interface AnnotationEntry {
+  annotation: Annotation
+  marker: HTMLElement
+  pointerEl: HTMLElement
+  shapeEl: HTMLElement
+  noteEl: HTMLElement
+  shape: PointerShape
+  target: HTMLElement | null
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/**
+ * Shows several pointers and notes at once, in one shared container, with
+ * connector lines between related annotations. Useful to explain
+ * relationships, e.g. "this filter affects this chart".
+ */
+export class Annotations {
+  private shadowRoot: ShadowRoot
+  private container: HTMLElement
+  private host: AnnotationsHost | undefined
+  private connectorsEl: SVGSVGElement
+  private options: AnnotationsOptions
+  private messages: Messages
+  private entries = new Map<string, AnnotationEntry>()
+  private events = new Emitter<AnnotationsEvents>()
+  private layout = new LayoutWatcher(() => this.refresh())
+
+  /**
+   * Create a new Annotations layer.
+   * @param options AnnotationsOptions for customizing annotations
+   * @param host Layer to render in instead of an own container, see `Pointer.annotations`
+   */
+  constructor(options: AnnotationsOptions = {}, host?: AnnotationsHost) {
+    assertBrowser('Annotations')
+    this.messages = resolveMessages(options.locale, options.messages)
+    this.options = {
+      ...options,
+      color: options.color || '#8BD3E6',
+      fontFamily: options.fontFamily || 'inherit',
+      fontSize: options.fontSize || '14px',
+      pointerSize: options.pointerSize ?? 32,
+      pointerStyle: options.pointerStyle ?? 'arrow',
+      placement: options.placement ?? 'bottom-end',
+      sanitize: options.sanitize ?? sanitizeHTML,
+    }
+
+    this.host = host
+    if (host) {
+      // Above the host's overlay, in a nested shadow root so styles stay apart
+      this.container = document.createElement('div')
+      this.container.className = 'annotations'
+      this.container.setAttribute(
+        'exportparts',
+        'marker, pointer, note, connector',
+      )
+      host.root.append(this.container)
+      this.shadowRoot = this.container.attachShadow({ mode: 'open' })
+    } else {
+      const layer = createLayer('pointerjs pointerjs-annotations', 999998)
+      this.container = layer.container
+      this.shadowRoot = layer.shadowRoot
+    }
+
+    const style = document.createElement('style')
+    style.textContent = `
+      :host(.annotations) {
+        position: absolute;
+        inset: 0;
+        pointer-events: none;
+        z-index: 2;
+      }
+      ${pointerStyles(this.options.pointerSize!)}
+      .connectors {
+        position: absolute;
+        left: 0;
+        top: 0;
+        width: 100%;
+        height: 100%;
+        overflow: visible;
+        z-index: 1;
+      }
+      .connector {
+        stroke: var(--pointerjs-color);
+        stroke-width: 2;
+        fill: none;
+      }
+      .connector.is-dashed {
+        stroke-dasharray: 6 4;
+      }
+      ${noteStyles(this.options)}
+    `
+    this.shadowRoot.append(style)
+
+    this.connectorsEl = document.createElementNS(SVG_NS, 'svg')
+    this.connectorsEl.setAttribute('class', 'connectors')
+    this.connectorsEl.setAttribute('aria-hidden', 'true')
+    this.shadowRoot.append(this.connectorsEl)
+
+    this.layout.watch()
+  }
+
+  /**
+   * Add one or more annotations, replacing those with the same id.
+   * @param annotations Annotation or annotations to show
+   */
+  add(annotations: Annotation | Annotation[]): void {
+    const list = Array.isArray(annotations) ? annotations : [annotations]
+    for (const annotation of list) {
+      this.removeEntry(annotation.id)
+      const marker = document.createElement('div')
+      marker.className = 'marker'
+      marker.setAttribute('part', 'marker')
+      marker.dataset.id = annotation.id
+      const pointerEl = document.createElement('div')
+      pointerEl.className = 'pointer'
+      pointerEl.setAttribute('part', 'pointer')
+      const shapeEl = document.createElement('span')
+      shapeEl.className = 'pointer-shape'
+      pointerEl.append(shapeEl)
+      const noteEl = document.createElement('div')
+      noteEl.className = 'note'
+      noteEl.setAttribute('part', 'note')
+      noteEl.setAttribute('role', 'note')
+      marker.append(pointerEl, noteEl)
+      this.shadowRoot.append(marker)
+      this.entries.set(annotation.id, {
+        annotation,
+        marker,
+        pointerEl,
+        shapeEl,
+        noteEl,
+        shape: resolvePointerShape(
+          annotation.pointerStyle ?? this.options.pointerStyle!,
+        ),
+        target: null,
+      })
+      this.render(annotation.id)
+    }
+    this.refresh()
+  }
+
+  /**
+   * Change an annotation, e.g. its note or connectors.
+   * @param id Annotation id
+   * @param changes Fields to change
+   */
+  update(id: string, changes: Partial<Omit<Annotation, 'id'>>): void {
+    const entry = this.entries.get(id)
+    if (!entry) {
+      console.warn(`[PointerJS] No annotation found for '${id}'.`)
+      return
+    }
+    entry.annotation = { ...entry.annotation, ...changes }
+    if ('pointerStyle' in changes) {
+      entry.shape = resolvePointerShape(
+        entry.annotation.pointerStyle ?? this.options.pointerStyle!,
+      )
+    }
+    this.render(id)
+    this.refresh()
+  }
+
+  /**
+   * Remove an annotation and the connectors to it.
+   * @param id Annotation id
+   */
+  remove(id: string): void {
+    this.removeEntry(id)
+    this.refresh()
+  }
+
+  /**
+   * Remove all annotations.
+   */
+  clear(): void {
+    for (const entry of this.entries.values()) entry.marker.remove()
+    this.entries.clear()
+    this.connectorsEl.replaceChildren()
+  }
+
+  /**
+   * Whether an annotation with this id is shown.
+   * @param id Annotation id
+   */
+  has(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  /**
+   * Re-position all annotations, e.g. after a layout change.
+   * Called automatically when the page scrolls or resizes.
+   */
+  refresh(): void {
+    for (const entry of this.entries.values()) this.position(entry)
+    this.drawConnectors()
+  }
+
+  /**
+   * Subscribe to an annotations event.
+   * @param event Event name
+   * @param listener Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof AnnotationsEvents>(
+    event: K,
+    listener: AnnotationsEvents[K],
+  ) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribe from an annotations event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof AnnotationsEvents>(
+    event: K,
+    listener: AnnotationsEvents[K],
+  ) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Remove all annotations from the DOM, along with their listeners.
+   */
+  destroy(): void {
+    this.layout.unwatch()
+    this.entries.clear()
+    this.events.clear()
+    this.container.remove()
+  }
+
+  private removeEntry(id: string) {
+    this.entries.get(id)?.marker.remove()
+    this.entries.delete(id)
+  }
+
+  // Apply the annotation's content, shape and color to its elements
+  private render(id: string) {
+    const entry = this.entries.get(id)!
+    const { annotation, marker, shapeEl, noteEl } = entry
+    shapeEl.replaceChildren(renderPointerShape(entry.shape))
+    const { hotspot = { x: 0, y: 0 } } = entry.shape
+    shapeEl.style.transformOrigin = `${hotspot.x * 100}% ${hotspot.y * 100}%`
+    if (annotation.note === undefined) {
+      noteEl.replaceChildren()
+      noteEl.style.display = 'none'
+    } else {
+      noteEl.replaceChildren(
+        renderNote(
+          annotation.note,
+          this.options.sanitize!,
+          (action) => this.events.emit('action', id, action),
+          this.messages,
+        ),
+      )
+      noteEl.style.display = 'block'
+    }
+    marker.style.removeProperty('--pointerjs-color')
+    marker.style.removeProperty('--pointerjs-note-background')
+    if (annotation.color) {
+      marker.style.setProperty('--pointerjs-color', annotation.color)
+      // Theme presets keep their neutral note background
+      if (!this.options.theme) {
+        marker.style.setProperty(
+          '--pointerjs-note-background',
+          annotation.color,
+        )
+      }
+    }
+  }
+
+  private position(entry: AnnotationEntry) {
+    const { annotation, marker, pointerEl, shapeEl, noteEl } = entry
+    const target = resolveElement(annotation.element)
+    entry.target = target
+    if (!target) {
+      marker.style.display = 'none'
+      return
+    }
+    marker.style.display = ''
+    const rect = getViewportRect(target)
+    const size = this.options.pointerSize!
+    const hasNote = annotation.note !== undefined
+    const layout = computePlacement({
+      target: rect,
+      note: hasNote
+        ? { width: noteEl.offsetWidth, height: noteEl.offsetHeight || 48 }
+        : { width: 0, height: 0 },
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      pointerSize: size,
+      placement: annotation.placement ?? this.options.placement,
+    })
+    const { x, y } = layout.pointer
+    pointerEl.style.left = `${x}px`
+    pointerEl.style.top = `${y}px`
+    const aim = this.options.rotate
+      ? { x: rect.x + rect.width / 2 - x, y: rect.y + rect.height / 2 - y }
+      : null
+    shapeEl.style.transform = orientShape(entry.shape, size, layout, aim)
+    noteEl.style.left = `${layout.note.x}px`
+    noteEl.style.top = `${layout.note.y}px`
+  }
+
+  // Lines between the edges of connected elements, ending in an arrowhead
+  private drawConnectors() {
+    const lines: SVGElement[] = []
+    for (const entry of this.entries.values()) {
+      const { connectTo = [] } = entry.annotation
+      for (const id of Array.isArray(connectTo) ? connectTo : [connectTo]) {
+        const other =
+          this.host && id === 'pointer'
+            ? this.host.target()
+            : this.entries.get(id)?.target
+        if (!entry.target || !other) continue
+        const from = getViewportRect(entry.target)
+        const to = getViewportRect(other)
+        const start = edgePoint(from, center(to))
+        const end = edgePoint(to, center(from))
+        const line = document.createElementNS(SVG_NS, 'path')
+        line.setAttribute(
+          'class',
+          `connector${this.options.dashedConnectors ? ' is-dashed' : ''}`,
+        )
+        line.setAttribute('part', 'connector')
+        line.setAttribute('d', `M${start.x} ${start.y}L${end.x} ${end.y}`)
+        if (entry.annotation.color) line.style.stroke = entry.annotation.color
+        lines.push(line, arrowHead(start, end, entry.annotation.color))
+      }
+    }
+    this.connectorsEl.replaceChildren(...lines)
+  }
+}
+
+function center(rect: DOMRect): Point {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }
+}
+
+// Where the line from the center of the rect towards a point leaves the rect
+function edgePoint(rect: DOMRect, toward: Point): Point {
+  const from = center(rect)
+  const dx = toward.x - from.x
+  const dy = toward.y - from.y
+  const scale = Math.min(
+    dx ? rect.width / 2 / Math.abs(dx) : Infinity,
+    dy ? rect.height / 2 / Math.abs(dy) : Infinity,
+    1,
+  )
+  return { x: from.x + dx * scale, y: from.y + dy * scale }
+}
+
+function arrowHead(start: Point, end: Point, color?: string): SVGElement {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x)
+  const size = 8
+  const corner = (offset: number) =>
+    `${end.x - size * Math.cos(angle + offset)} ${end.y - size * Math.sin(angle + offset)}`
+  const head = document.createElementNS(SVG_NS, 'path')
+  head.setAttribute('class', 'connector')
+  head.setAttribute('part', 'connector')
+  head.setAttribute('d', `M${corner(0.5)}L${end.x} ${end.y}L${corner(-0.5)}`)
+  if (color) head.style.stroke = color
+  return head
+}
@@ -0,0 +1,313 @@
+import { DEFAULT_MESSAGES, formatMessage, type Messages } from './i18n'
+
+/**
+ * Built-in navigation actions for note buttons.
+ */
+export type NoteAction = 'next' | 'back' | 'skip' | 'done'
+
+/**
+ * A button rendered at the bottom of a note.
+ */
+export interface NoteButton {
+  /** Button text (default: derived from the action) */
+  label?: string
+  /** Navigation action or custom click handler (default: "next") */
+  action?: NoteAction | ((event: MouseEvent) => void)
+  /** Extra class names for styling */
+  className?: string
+}
+
+/**
+ * Structured note with an optional title, image and buttons.
+ */
+export interface RichNote {
+  title?: string
+  /** Plain text body */
+  body?: string
+  /** HTML body, sanitized unless sanitization is disabled */
+  html?: string
+  /** Image URL or image with alt text shown above the text */
+  image?: string | { src: string; alt?: string }
+  buttons?: NoteButton[]
+}
+
+/**
+ * Note content: plain text, a structured note, a DOM node or a render function.
+ */
+export type NoteContent = string | RichNote | Node | (() => string | Node)
+
+/**
+ * Sanitizes an HTML string before it is inserted into a note.
+ * Returned nodes are inserted as they are, strings are parsed as HTML.
+ */
+export type Sanitizer = (html: string) => string | Node
+
+/**
+ * How flow progress is shown in the note: "2 of 5", dots, or a bar.
+ */
+export type ProgressStyle = 'text' | 'dots' | 'bar'
+
+/**
+ * Position in the flow shown in the note.
+ */
+export interface NoteProgress {
+  /** One-based index of the current step */
+  current: number
+  total: number
+  style: ProgressStyle
+}
+
+// Removed with their content, everything else outside the allowlist is unwrapped
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'template',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'link',
+  'meta',
+  'base',
+  'form',
+  'noscript',
+  'textarea',
+  'select',
+  'title',
+])
+const ALLOWED_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'blockquote',
+  'br',
+  'caption',
+  'code',
+  'dd',
+  'del',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'pre',
+  'q',
+  's',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+])
+const GLOBAL_ATTRIBUTES = new Set(['class', 'title', 'lang', 'dir', 'role'])
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'target', 'rel'],
+  img: ['src', 'alt', 'width', 'height'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  del: ['cite'],
+  ins: ['cite'],
+  ol: ['start', 'reversed'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+}
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite'])
+// Allow data URLs for images only
+const UNSAFE_URL = /^(?:javascript|vbscript|data(?!:image\/(?!svg)))/i
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml'
+
+/**
+ * Keep only allowlisted HTML tags and attributes, without unsafe URLs.
+ * The result is a fragment, so that it is inserted without parsing it again.
+ * @param html Untrusted HTML
+ * @returns Sanitized nodes
+ */
+export function sanitizeHTML(html: string): DocumentFragment {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  cleanChildren(template.content)
+  return template.content
+}
+
+function cleanChildren(parent: Node) {
+  for (const node of Array.from(parent.childNodes)) {
+    if (!(node instanceof Element)) {
+      // Text only, comments and processing instructions are dropped
+      if (node.nodeType !== Node.TEXT_NODE) node.remove()
+      continue
+    }
+    const tag = node.localName
+    // SVG and MathML can run scripts, e.g. through <animate>
+    if (node.namespaceURI !== HTML_NAMESPACE || DROPPED_TAGS.has(tag)) {
+      node.remove()
+      continue
+    }
+    cleanChildren(node)
+    if (ALLOWED_TAGS.has(tag)) {
+      cleanAttributes(node)
+    } else {
+      node.replaceWith(...Array.from(node.childNodes))
+    }
+  }
+}
+
+function cleanAttributes(el: Element) {
+  const allowed = TAG_ATTRIBUTES[el.localName] ?? []
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name.toLowerCase()
+    // Browsers ignore whitespace and control characters in URL schemes
+    const value = attr.value.replaceAll(/[^\u0021-\uFFFF]/g, '')
+    if (
+      (!GLOBAL_ATTRIBUTES.has(name) &&
+        !name.startsWith('aria-') &&
+        !allowed.includes(name)) ||
+      (URL_ATTRIBUTES.has(name) && UNSAFE_URL.test(value))
+    ) {
+      el.removeAttribute(attr.name)
+    }
+  }
+}
+
+function isRichNote(note: NoteContent): note is RichNote {
+  return typeof note === 'object' && !(note instanceof Node)
+}
+
+/**
+ * Render note content into a DOM node.
+ * @param note Note content
+ * @param sanitize Sanitizer for HTML strings, or false to trust them
+ * @param onAction Called when a button with a built-in action is clicked
+ * @param messages Labels of built-in buttons (default: English)
+ */
+export function renderNote(
+  note: NoteContent,
+  sanitize: Sanitizer | false,
+  onAction: (action: NoteAction) => void,
+  messages: Messages = DEFAULT_MESSAGES,
+): Node {
+  if (typeof note === 'function') note = note()
+  if (typeof note === 'string') return document.createTextNode(note)
+  if (!isRichNote(note)) return note
+
+  const fragment = document.createDocumentFragment()
+  if (note.image) {
+    const image =
+      typeof note.image === 'string' ? { src: note.image } : note.image
+    const img = document.createElement('img')
+    img.className = 'note-image'
+    img.setAttribute('part', 'note-image')
+    img.src = image.src
+    img.alt = image.alt ?? ''
+    fragment.append(img)
+  }
+  if (note.title) {
+    const title = document.createElement('div')
+    title.className = 'note-title'
+    title.setAttribute('part', 'note-title')
+    title.textContent = note.title
+    fragment.append(title)
+  }
+  if (note.body || note.html) {
+    const body = document.createElement('div')
+    body.className = 'note-body'
+    body.setAttribute('part', 'note-body')
+    if (note.html) {
+      const content = sanitize ? sanitize(note.html) : note.html
+      if (typeof content === 'string') {
+        body.innerHTML = content
+      } else {
+        body.append(content)
+      }
+    } else {
+      body.textContent = note.body!
+    }
+    fragment.append(body)
+  }
+  if (note.buttons?.length) {
+    const buttons = document.createElement('div')
+    buttons.className = 'note-buttons'
+    for (const { label, action = 'next', className } of note.buttons) {
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.className = className ? `note-button ${className}` : 'note-button'
+      button.setAttribute('part', 'note-button')
+      if (typeof action === 'function') {
+        button.textContent = label ?? ''
+        button.addEventListener('click', action)
+      } else {
+        button.textContent = label ?? messages[action]
+        button.dataset.action = action
+        button.addEventListener('click', () => onAction(action))
+      }
+      buttons.append(button)
+    }
+    fragment.append(buttons)
+  }
+  return fragment
+}
+
+/**
+ * Render a progress indicator with ARIA progressbar semantics.
+ * @param progress Current position and display style
+ * @param messages Progress texts (default: English)
+ */
+export function renderProgress(
+  progress: NoteProgress,
+  messages: Messages = DEFAULT_MESSAGES,
+): HTMLElement {
+  const { current, total, style } = progress
+  const el = document.createElement('div')
+  el.className = `note-progress note-progress-${style}`
+  el.setAttribute('part', 'progress')
+  el.setAttribute('role', 'progressbar')
+  el.setAttribute('aria-valuemin', '1')
+  el.setAttribute('aria-valuemax', String(total))
+  el.setAttribute('aria-valuenow', String(current))
+  const text = formatMessage(messages.progress, { current, total })
+  el.setAttribute(
+    'aria-valuetext',
+    formatMessage(messages.progressLabel, { current, total }),
+  )
+  if (style === 'text') {
+    el.textContent = text
+  } else if (style === 'dots') {
+    for (let i = 1; i <= total; i++) {
+      const dot = document.createElement('span')
+      dot.className =
+        i === current ? 'note-progress-dot is-active' : 'note-progress-dot'
+      el.append(dot)
+    }
+  } else {
+    const fill = document.createElement('span')
+    fill.className = 'note-progress-fill'
+    fill.style.width = `${(current / total) * 100}%`
+    el.append(fill)
+  }
+  return el
+}
@@ -0,0 +1,250 @@
+/**
+ * Function returning a step's target element, for targets no selector can reach.
+ */
+export type ElementResolver = () => HTMLElement | null
+
+/**
+ * A CSS selector, a chained selector using `>>>`, or a resolver function.
+ */
+export type ElementTarget = string | ElementResolver
+
+/**
+ * Separates the parts of a chained selector. Each part before it matches a
+ * shadow host or a same-origin iframe, and the next part is queried inside it.
+ */
+export const SELECTOR_CHAIN = '>>>'
+
+/**
+ * Query an element, piercing open shadow roots and same-origin iframes with
+ * chained selectors like `"my-app >>> iframe#editor >>> .toolbar"`.
+ * @param selector CSS selector, optionally chained with `>>>`
+ * @param root Where to start the query (default: document)
+ * @returns The element, or null if any part does not match or cannot be entered
+ */
+export function queryDeep(
+  selector: string,
+  root: ParentNode = document,
+): HTMLElement | null {
+  const parts = selector.split(SELECTOR_CHAIN).map((part) => part.trim())
+  let scope: ParentNode | null = root
+  for (const [i, part] of parts.entries()) {
+    const el: Element | null = scope.querySelector(part)
+    if (!el || i === parts.length - 1) return el as HTMLElement | null
+    if (el instanceof HTMLIFrameElement) {
+      // Cross-origin frames throw or return null
+      try {
+        scope = el.contentDocument
+      } catch {
+        scope = null
+      }
+    } else {
+      // Closed shadow roots are not reachable, so search the light DOM instead
+      scope = el.shadowRoot ?? el
+    }
+    if (!scope) return null
+  }
+  return null
+}
+
+/**
+ * Find the element of a target.
+ * @param target Selector, chained selector or resolver function
+ */
+export function resolveElement(target: ElementTarget): HTMLElement | null {
+  if (typeof target === 'function') return target()
+  return queryDeep(target)
+}
+
+/**
+ * Describe a target in warnings and errors.
+ * @param target Selector, chained selector or resolver function
+ */
+export function describeTarget(target: ElementTarget): string {
+  return typeof target === 'function'
+    ? `resolver ${target.name || '(anonymous)'}`
+    : `selector: '${target}'`
+}
+
+/**
+ * Rect of an element relative to the top-level viewport, adding the offsets
+ * of the same-origin iframes it is rendered in.
+ * @param el Element to measure
+ */
+export function getViewportRect(el: Element): DOMRect {
+  const rect = el.getBoundingClientRect()
+  let { left, top } = rect
+  // Rects from polyfills and mocks may lack either the size or the edges
+  const width = rect.right - rect.left || rect.width || 0
+  const height = rect.bottom - rect.top || rect.height || 0
+  let frame = getFrameElement(el.ownerDocument)
+  while (frame) {
+    const frameRect = frame.getBoundingClientRect()
+    left += frameRect.left + frame.clientLeft
+    top += frameRect.top + frame.clientTop
+    frame = getFrameElement(frame.ownerDocument)
+  }
+  return new DOMRect(left, top, width, height)
+}
+
+/**
+ * Scroll an element into view if it is outside its scroll containers or the
+ * viewport, walking up through scrollable ancestors, shadow hosts and iframes.
+ * @param el Element to reveal
+ * @param behavior Scroll behavior (default: "auto")
+ * @param margin Space to leave around the element, e.g. for a note (default: 100)
+ * @returns Whether anything was scrolled
+ */
+export function scrollIntoViewIfNeeded(
+  el: Element,
+  behavior: ScrollBehavior = 'auto',
+  margin = 100,
+): boolean {
+  let scrolled = false
+  let rect = el.getBoundingClientRect()
+  let node = getLayoutParent(el)
+  let doc = el.ownerDocument
+  // Smooth scrolls have not moved anything yet, so track where the element will end up
+  const reveal = (
+    box: { left: number; top: number; right: number; bottom: number },
+    range: { x: number; top: number; bottom: number },
+    scroll: (left: number, top: number) => void,
+  ) => {
+    const dx = clamp(
+      getDelta(rect.left, rect.right, box.left, box.right, margin),
+      -range.x,
+      range.x,
+    )
+    const dy = clamp(
+      getDelta(rect.top, rect.bottom, box.top, box.bottom, margin),
+      -range.top,
+      range.bottom,
+    )
+    if (!dx && !dy) return
+    scroll(dx, dy)
+    rect = new DOMRect(rect.left - dx, rect.top - dy, rect.width, rect.height)
+    scrolled = true
+  }
+
+  while (true) {
+    for (; node; node = getLayoutParent(node)) {
+      if (!isScrollable(node)) continue
+      const box = node.getBoundingClientRect()
+      const container = node
+      reveal(
+        {
+          left: box.left + node.clientLeft,
+          top: box.top + node.clientTop,
+          right: box.left + node.clientLeft + node.clientWidth,
+          bottom: box.top + node.clientTop + node.clientHeight,
+        },
+        {
+          x: node.scrollWidth - node.clientWidth,
+          top: node.scrollTop,
+          bottom: node.scrollHeight - node.clientHeight - node.scrollTop,
+        },
+        (left, top) => container.scrollBy({ left, top, behavior }),
+      )
+    }
+    const win = doc.defaultView
+    if (!win) break
+    const root = doc.documentElement
+    reveal(
+      { left: 0, top: 0, right: win.innerWidth, bottom: win.innerHeight },
+      {
+        x: root.scrollWidth - win.innerWidth,
+        top: win.scrollY,
+        bottom: root.scrollHeight - win.innerHeight - win.scrollY,
+      },
+      (left, top) => win.scrollBy({ left, top, behavior }),
+    )
+    // Continue in the parent document, where the element sits inside its iframe
+    const frame = getFrameElement(doc)
+    if (!frame) break
+    const frameRect = frame.getBoundingClientRect()
+    rect = new DOMRect(
+      rect.left + frameRect.left + frame.clientLeft,
+      rect.top + frameRect.top + frame.clientTop,
+      rect.width,
+      rect.height,
+    )
+    node = getLayoutParent(frame)
+    doc = frame.ownerDocument
+  }
+  return scrolled
+}
+
+/**
+ * Targets to listen on for scroll events that move an element: scroll events
+ * do not cross shadow roots or frames, so a window listener alone misses them.
+ * @param el Element that may move
+ */
+export function getScrollRoots(el: Element): EventTarget[] {
+  const roots: EventTarget[] = []
+  let node: Element | null = el
+  while (node) {
+    const root = node.getRootNode()
+    if (root instanceof ShadowRoot) {
+      roots.push(root)
+      node = root.host
+    } else {
+      const doc = node.ownerDocument
+      if (doc.defaultView) roots.push(doc.defaultView)
+      node = getFrameElement(doc)
+    }
+  }
+  return roots
+}
+
+/**
+ * The iframe a document is rendered in, if it is same-origin.
+ * @param doc Document of the element
+ */
+export function getFrameElement(doc: Document): Element | null {
+  // Accessing a cross-origin parent throws
+  try {
+    return doc.defaultView?.frameElement ?? null
+  } catch {
+    return null
+  }
+}
+
+// Slotted elements are laid out in their slot, shadow roots in their host
+function getLayoutParent(el: Element): Element | null {
+  if (el.assignedSlot) return el.assignedSlot
+  if (el.parentElement) return el.parentElement
+  const root = el.getRootNode()
+  return root instanceof ShadowRoot ? root.host : null
+}
+
+function isScrollable(el: Element): boolean {
+  if (el === el.ownerDocument.documentElement || el === el.ownerDocument.body)
+    return false
+  const style = el.ownerDocument.defaultView?.getComputedStyle(el)
+  if (!style) return false
+  const overflow = style.overflow + style.overflowX + style.overflowY
+  return (
+    /auto|scroll|overlay/.test(overflow) &&
+    (el.scrollHeight > el.clientHeight || el.scrollWidth > el.clientWidth)
+  )
+}
+
+// Distance to scroll so that [start, end] fits in [min, max] with a margin
+function getDelta(
+  start: number,
+  end: number,
+  min: number,
+  max: number,
+  margin: number,
+): number {
+  // Cap the margin so that it never pushes the element out the other side
+  const space = Math.max(0, Math.min(margin, (max - min - (end - start)) / 2))
+  if (start < min) return start - min - space
+  if (end > max) return end - max + space
+  return 0
+}
+
+// Deltas are limited by how far the container can actually scroll. Horizontal
+// positions are negative in RTL containers, so only the extent bounds them.
+function clamp(delta: number, min: number, max: number): number {
+  return Math.max(Math.min(0, min), Math.min(Math.max(0, max), delta))
+}
@@ -0,0 +1,17 @@
+/**
+ * Whether the code runs in a browser, as opposed to e.g. server-side rendering.
+ */
+export function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof document !== 'undefined'
+}
+
+/**
+ * Throw a descriptive error when a DOM feature is used outside the browser.
+ * @param name Name of the API being used, for the error message
+ */
+export function assertBrowser(name: string): void {
+  if (isBrowser()) return
+  throw new Error(
+    `[PointerJS] ${name} needs a browser environment. Call it from client-side code, e.g. in useEffect or onMounted.`,
+  )
+}
@@ -0,0 +1,55 @@
+type Listener = (...args: any[]) => void
+
+/**
+ * Minimal typed event emitter.
+ */
+export class Emitter<Events extends Record<keyof Events, Listener>> {
+  private listeners: { [K in keyof Events]?: Set<Events[K]> } = {}
+
+  /**
+   * Subscribe to an event.
+   * @param event Event name
+   * @param listener Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Events[K]): () => void {
+    ;(this.listeners[event] ||= new Set()).add(listener)
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Unsubscribe from an event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    this.listeners[event]?.delete(listener)
+  }
+
+  /**
+   * Notify all listeners of an event. Errors thrown by listeners are logged.
+   * @param event Event name
+   * @param args Event payload
+   */
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+    const listeners = this.listeners[event]
+    if (!listeners) return
+    for (const listener of listeners) {
+      try {
+        listener(...args)
+      } catch (error) {
+        console.error(
+          `[PointerJS] Error in '${String(event)}' listener.`,
+          error,
+        )
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners.
+   */
+  clear(): void {
+    this.listeners = {}
+  }
+}
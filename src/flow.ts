@@ -1,37 +1,320 @@
+import { watchAdvance, type AdvanceOn } from './advance'
+import { describeTarget, resolveElement, type ElementTarget } from './dom'
+import { assertBrowser } from './env'
+import { Emitter } from './events'
+import { formatMessage, resolveMessages } from './i18n'
 import { Pointer, type PointerOptions } from './pointer'
+import { lockScroll } from './scroll-lock'
+import {
+  readJSON,
+  resolveStorage,
+  writeJSON,
+  type StorageAdapter,
+  type StorageOption,
+} from './storage'
+import { TourStateStore, type TourState } from './tour-state'
+import { waitForElement, type WaitOptions } from './wait'
+import type { Annotation, Annotations } from './annotations'
+import type { NoteAction, NoteContent, ProgressStyle } from './content'
+import type { OverlayOptions } from './overlay'
+import type { Placement } from './placement'
+import type { PointerShape, PointerStyle } from './shapes'
 
 /**
  * A single onboarding step for PointerJS.
- * @property element CSS selector for the target element
- * @property note The note to display next to the pointer
+ * @property id Optional unique id, used to jump to the step with `goTo`
+ * @property element CSS selector for the target element, chained with `>>>` to enter shadow roots and iframes, or a function returning it
+ * @property note The note to display next to the pointer: text, a rich note, a DOM node or a render function
  * @property url Optional URL to navigate to before this step
+ * @property wait Override how long to wait for the element to appear, or false to not wait
+ * @property missing Override what happens when the element is not found
+ * @property placement Override where the pointer and note go relative to the element
+ * @property pointerStyle Override the pointer shape, e.g. a hand for "click here" steps
+ * @property annotations Extra pointers and notes shown with the step, e.g. to connect related elements
+ * @property advanceOn What else moves the flow forward, e.g. typing into the target (default: FlowOptions.advanceOn)
+ * @property when Predicate deciding whether the step is shown, may be async
+ * @property next Id or index of the following step, or a function choosing it (null ends the flow)
+ * @property onBeforeShow Called before the step is shown, resolve to false to skip it
+ * @property onAfterShow Called once the pointer is moving to the target
+ * @property onLeave Called when the flow moves away from this step
  */
 export interface OnboardingStep {
-  element: string // CSS selector
-  note: string
+  id?: string
+  element: ElementTarget
+  note: NoteContent
   url?: string
+  wait?: WaitOptions | false
+  missing?: MissingElementPolicy
+  placement?: Placement
+  pointerStyle?: PointerStyle | PointerShape
+  annotations?: Annotation[]
+  advanceOn?: AdvanceOn
+  when?: (context: StepContext) => boolean | Promise<boolean>
+  next?:
+    | string
+    | number
+    | ((context: StepContext) => string | number | null | undefined)
+  onBeforeShow?: (
+    context: StepContext,
+  ) => boolean | void | Promise<boolean | void>
+  onAfterShow?: (context: StepShownContext) => void
+  onLeave?: (context: StepContext) => void
 }
 
+/**
+ * Information about a step passed to callbacks and event listeners.
+ */
+export interface StepContext {
+  step: OnboardingStep
+  /** Zero-based index of the step */
+  index: number
+  /** Total number of steps in the flow */
+  total: number
+  /** Application data from `FlowOptions.data` */
+  data: Record<string, unknown>
+}
+
+/**
+ * Step context once the target element has been resolved.
+ */
+export interface StepShownContext extends StepContext {
+  /** Target element, or null when the note is shown centered */
+  element: HTMLElement | null
+}
+
+/**
+ * What to do when a step's element is not found after waiting:
+ * skip the step, stop the flow, show the note centered, or emit an error event and stop.
+ */
+export type MissingElementPolicy = 'skip' | 'stop' | 'center' | 'error'
+
+/**
+ * Why a step was skipped: target missing, vetoed by `onBeforeShow` or excluded by `when`.
+ */
+export type SkipReason = 'notFound' | 'vetoed' | 'condition'
+
+/**
+ * Events emitted by a FlowManager.
+ */
+export type FlowEvents = {
+  /** A step's target was found and the pointer is moving to it */
+  stepShown: (context: StepShownContext) => void
+  /** A step was skipped */
+  stepSkipped: (context: StepContext & { reason: SkipReason }) => void
+  /** The user moved forward from a step */
+  next: (context: StepContext) => void
+  /** The user moved back from a step */
+  back: (context: StepContext) => void
+  /** The last step was passed */
+  complete: () => void
+  /** The flow was stopped before completion, e.g. with Escape */
+  dismiss: (context: StepContext) => void
+  /** A step failed with the "error" missing element policy */
+  error: (context: StepContext & { error: Error }) => void
+}
+
+/**
+ * Flow commands that can be bound to keys.
+ */
+export type FlowKeyAction = 'next' | 'back' | 'stop'
+
+/**
+ * Keys triggering each flow command, as `KeyboardEvent.key` values.
+ */
+export type KeyBindings = Partial<Record<FlowKeyAction, string[]>>
+
+/**
+ * Which clicks reach the page while a flow runs: all of them, only those on
+ * the current target and the note, or only those on the note.
+ */
+export type InteractionMode = 'all' | 'target' | 'none'
+
 /**
  * Options for onboarding flow behavior.
  */
 export interface FlowOptions {
   /** Enable keyboard navigation (default: true) */
   keyboardNavigation?: boolean
+  /** Keys for keyboard navigation (default: Enter/ArrowRight, ArrowLeft, Escape) */
+  keyBindings?: KeyBindings
+  /** Return focus to the previously focused element when the flow ends (default: true) */
+  restoreFocus?: boolean
+  /** Announce step changes to screen readers, optionally with a custom message (default: the stepAnnouncement message) */
+  announce?: boolean | ((context: StepContext) => string)
+  /** Identifier of the flow, used to match persisted state (default: "default") */
+  id?: string
+  /** Where to persist progress across page loads, or false to disable (default: "session") */
+  persist?: StorageOption | false
+  /** Storage key for persisted progress (default: "pointerjs:flow", followed by ":<id>" for flows with an id) */
+  storageKey?: string
+  /** Custom navigation for `url` steps, e.g. an SPA router push (default: full page load) */
+  navigate?: (url: string) => void | Promise<void>
+  /** How long to wait for step elements to appear, or false to not wait (default: 3000ms via MutationObserver) */
+  wait?: WaitOptions | false
+  /** What to do when a step's element is not found (default: "skip") */
+  missing?: MissingElementPolicy
+  /** What moves a step forward besides buttons and keys (default: "click" on the target) */
+  advanceOn?: AdvanceOn
+  /** Element that cannot scroll while the flow runs, e.g. an inner scroller, or false to not lock (default: "body") */
+  scrollLock?: ElementTarget | false
+  /** Which clicks reach the page while the flow runs (default: "all") */
+  interaction?: InteractionMode
+  /** Dim the page around each step's target, overridden by PointerOptions.overlay (default: false) */
+  overlay?: boolean | OverlayOptions
+  /** Show the position in the flow inside the note (default: false) */
+  progress?: ProgressStyle | false
+  /** What startOnboarding does when another flow is running (default: "replace") */
+  concurrency?: ConcurrencyPolicy
+  /** Application data passed to step predicates and callbacks, e.g. the user's role */
+  data?: Record<string, unknown>
+  /** Don't start the flow again once it was completed or dismissed, requires an id (default: false) */
+  showOnce?: boolean
+  /** Start from the last step shown if the flow was left unfinished, requires an id (default: false) */
+  resumeFromLastStep?: boolean
+  /** Version of the flow content, bump it to show the flow to everyone again */
+  version?: number
+  /** Where completion state is remembered when an id is set, or false to disable (default: "local") */
+  stateStorage?: StorageOption | false
+}
+
+/**
+ * How startOnboarding handles a new flow while another one is running:
+ * wait for it to end, stop it, or refuse to start the new flow.
+ */
+export type ConcurrencyPolicy = 'queue' | 'replace' | 'reject'
+
+/**
+ * Lifecycle state of a FlowManager.
+ */
+export type FlowStatus =
+  | 'idle'
+  | 'running'
+  | 'completed'
+  | 'dismissed'
+  | 'cancelled'
+
+/**
+ * How a flow ended, resolved by `FlowManager.finished`.
+ */
+export interface FlowResult {
+  /** "cancelled" when the flow was stopped or rejected before it started, restarted, replaced, stopped by a missing element, or cancelled by `cancel()` */
+  status: Exclude<FlowStatus, 'idle' | 'running'>
+  /** Index of the step the flow ended at */
+  step: number
+}
+
+/**
+ * Onboarding progress saved to storage so a flow can resume after navigation.
+ */
+export interface PersistedFlow {
+  id: string
+  step: number
+  /** Indexes of previously shown steps, for going back */
+  history?: number[]
+  steps: OnboardingStep[]
+  pointerOptions: PointerOptions
+  flowOptions: FlowOptions
+}
+
+const DEFAULT_FLOW_ID = 'default'
+const INTERACTIVE_SELECTOR =
+  'button, a[href], input, textarea, select, [contenteditable]'
+const DEFAULT_STORAGE_KEY = 'pointerjs:flow'
+const BLOCKED_EVENTS = [
+  'pointerdown',
+  'mousedown',
+  'click',
+  'dblclick',
+  'auxclick',
+  'contextmenu',
+]
+const DEFAULT_KEY_BINDINGS: Required<KeyBindings> = {
+  next: ['Enter', 'ArrowRight'],
+  back: ['ArrowLeft'],
+  stop: ['Escape'],
+}
+
+// Whether a step url points to the current page, ignoring the hash
+function isCurrentURL(url: string): boolean {
+  const { location } = window
+  const target = new URL(url, location.href)
+  return (
+    target.origin === location.origin &&
+    target.pathname === location.pathname &&
+    target.search === location.search
+  )
+}
+
+// Flows with an id keep their progress apart, so they can run side by side
+function getStorageKey(flowOptions: FlowOptions): string {
+  if (flowOptions.storageKey) return flowOptions.storageKey
+  return flowOptions.id === undefined
+    ? DEFAULT_STORAGE_KEY
+    : `${DEFAULT_STORAGE_KEY}:${flowOptions.id}`
+}
+
+function getStorage(flowOptions: FlowOptions): StorageAdapter | null {
+  if (flowOptions.persist === false) return null
+  return resolveStorage(flowOptions.persist ?? 'session')
+}
+
+/**
+ * Read the persisted flow state, if any.
+ * @param flowOptions Flow options describing where the state is stored
+ */
+function readPersistedFlow(flowOptions: FlowOptions): PersistedFlow | null {
+  const storage = getStorage(flowOptions)
+  if (!storage) return null
+  const state = readJSON<PersistedFlow>(storage, getStorageKey(flowOptions))
+  if (!state || !Array.isArray(state.steps)) return null
+  if (flowOptions.id && state.id !== flowOptions.id) return null
+  return state
+}
+
+// Resolver functions are lost when steps are persisted, so skip the steps
+// that no longer have an element
+function skipUnserializable(steps: OnboardingStep[]): OnboardingStep[] {
+  const lost = steps.flatMap((step, i) => (step.element ? [] : [i + 1]))
+  if (lost.length === 0) return steps
+  console.warn(
+    `[PointerJS] Skipping persisted steps without an element (${lost.join(', ')}). Pass the steps to resumeOnboarding to keep resolver functions.`,
+  )
+  return steps.map((step) =>
+    step.element ? step : { ...step, when: () => false },
+  )
 }
 
 /**
- * Manages the onboarding flow using the Pointer.
+ * Manages an onboarding flow using the Pointer.
+ * Each instance is independent, so several flows can exist side by side.
  */
 export class FlowManager {
   private steps: OnboardingStep[] = []
   private pointer: Pointer | null = null
-  private currentStep = 0
+  private annotations: Annotations | null = null
+  private stepIndex = 0
   private running = false
   private pointerOptions: PointerOptions
   private flowOptions: FlowOptions
   private keyHandler: ((e: KeyboardEvent) => void) | null = null
-  private _prevOverflow: string | undefined = undefined
+  private focusOrigin: HTMLElement | null = null
+  private releaseScroll: (() => void) | null = null
+  // Element of the step shown, the only one clickable with the "target" interaction mode
+  private stepTarget: HTMLElement | null = null
+  private storage: StorageAdapter | null
+  private events = new Emitter<FlowEvents>()
+  // Incremented on every step change to discard stale async work
+  private runId = 0
+  private direction: 1 | -1 = 1
+  // Indexes of the steps shown before the current one
+  private history: number[] = []
+  private activeStep: StepContext | null = null
+  // Cancels pending waits of the current step
+  private stepAbort: AbortController | null = null
+  private _status: FlowStatus = 'idle'
+  private _finished!: Promise<FlowResult>
+  private settle: ((result: FlowResult) => void) | null = null
+  private tourState: TourStateStore | null
 
   /**
    * Create a new FlowManager.
@@ -42,36 +325,142 @@ export class FlowManager {
     pointerOptions: PointerOptions = {},
     flowOptions: FlowOptions = {},
   ) {
-    this.pointerOptions = pointerOptions
+    this.pointerOptions = {
+      ...pointerOptions,
+      overlay: pointerOptions.overlay ?? flowOptions.overlay,
+    }
     this.flowOptions = {
+      ...flowOptions,
       keyboardNavigation: flowOptions.keyboardNavigation !== false,
+      keyBindings: { ...DEFAULT_KEY_BINDINGS, ...flowOptions.keyBindings },
+      restoreFocus: flowOptions.restoreFocus !== false,
+      announce: flowOptions.announce ?? true,
+      storageKey: getStorageKey(flowOptions),
+      wait: flowOptions.wait ?? {},
+      missing: flowOptions.missing ?? 'skip',
+      advanceOn: flowOptions.advanceOn ?? 'click',
+      scrollLock: flowOptions.scrollLock ?? 'body',
+      interaction: flowOptions.interaction ?? 'all',
+      data: flowOptions.data ?? {},
     }
+    this.storage = getStorage(this.flowOptions)
+    // Only flows with an explicit id can be told apart
+    this.tourState =
+      flowOptions.id !== undefined && flowOptions.stateStorage !== false
+        ? new TourStateStore(flowOptions.stateStorage ?? 'local')
+        : null
+    this.resetFinished()
+  }
+
+  /**
+   * Index of the current step.
+   */
+  get currentStep(): number {
+    return this.stepIndex
+  }
+
+  /**
+   * Lifecycle state of the flow.
+   */
+  get status(): FlowStatus {
+    return this._status
+  }
+
+  /**
+   * Resolves when the current or next run of the flow ends.
+   */
+  get finished(): Promise<FlowResult> {
+    return this._finished
   }
 
   /**
    * Start the onboarding flow with the given steps.
    * @param steps Array of onboarding steps
+   * @param startAt Index of the step to start from (default: 0)
    */
-  start(steps: OnboardingStep[]) {
+  start(steps: OnboardingStep[], startAt = 0) {
+    assertBrowser('FlowManager.start')
+    const state = this.getTourState()
+    if (
+      state &&
+      this.flowOptions.showOnce &&
+      (state.completed || state.dismissedAt !== undefined)
+    ) {
+      if (!this.settle) this.resetFinished()
+      this.end('cancelled')
+      return
+    }
+    if (
+      state &&
+      this.flowOptions.resumeFromLastStep &&
+      !state.completed &&
+      state.lastStep !== undefined
+    ) {
+      startAt = state.lastStep
+    }
+    this.begin(steps, startAt, [])
+  }
+
+  private begin(steps: OnboardingStep[], startAt: number, history: number[]) {
     if (!Array.isArray(steps) || steps.length === 0) {
       console.warn('[PointerJS] No onboarding steps provided.')
+      if (this._status === 'idle') this.end('cancelled')
       return
     }
+    if (this.running) this.cancel()
+    if (!this.settle) this.resetFinished()
     this.steps = steps
-    this.currentStep = 0
+    this.stepIndex = Math.min(Math.max(0, startAt), steps.length - 1)
+    this.history = history.filter((index) => index < steps.length)
+    this.direction = 1
     this.running = true
-    if (!this.pointer) this.pointer = new Pointer(this.pointerOptions)
-    // Disable scroll via JS
-    this._prevOverflow = document.body.style.overflow
-    document.body.style.overflow = 'hidden'
+    this._status = 'running'
+    this.ensurePointer()
+    // Locks are counted, so restarting never saves the locked state as the original
+    this.releaseScroll?.()
+    this.releaseScroll = null
+    const { scrollLock } = this.flowOptions
+    if (scrollLock !== false) {
+      const scroller = resolveElement(scrollLock!)
+      if (scroller) {
+        this.releaseScroll = lockScroll(scroller)
+      } else {
+        console.warn(
+          `[PointerJS] Scroll lock element not found for ${describeTarget(scrollLock!)}.`,
+        )
+      }
+    }
+    if (this.flowOptions.interaction !== 'all') {
+      for (const type of BLOCKED_EVENTS) {
+        window.addEventListener(type, this.blockInteraction, true)
+      }
+    }
+    if (this.flowOptions.restoreFocus && !this.focusOrigin) {
+      const active = document.activeElement
+      this.focusOrigin =
+        active instanceof HTMLElement && active !== document.body
+          ? active
+          : null
+    }
     if (this.flowOptions.keyboardNavigation) {
+      const bindings = this.flowOptions.keyBindings!
       this.keyHandler = (e: KeyboardEvent) => {
         if (!this.running) return
-        if (e.key === 'Enter' || e.key === 'ArrowRight') {
+        const stop = bindings.stop?.includes(e.key)
+        // Leave keys to focused buttons and form fields, except stop keys
+        const origin = e.composedPath()[0]
+        if (
+          !stop &&
+          origin instanceof Element &&
+          origin.closest(INTERACTIVE_SELECTOR)
+        ) {
+          return
+        }
+        if (bindings.next?.includes(e.key)) {
           this.advanceStep()
-        } else if (e.key === 'ArrowLeft') {
+        } else if (bindings.back?.includes(e.key)) {
           this.goBackStep()
-        } else if (e.key === 'Escape') {
+        } else if (stop) {
           this.stop()
         }
       }
@@ -80,72 +469,501 @@ export class FlowManager {
     this.runStep()
   }
 
+  /**
+   * Move to the next step, completing the flow after the last one.
+   */
+  next() {
+    if (this.running) this.advanceStep()
+  }
+
+  /**
+   * Move to the previous step.
+   */
+  back() {
+    if (this.running) this.goBackStep()
+  }
+
+  /**
+   * Jump to a step.
+   * @param target Step index or step id
+   */
+  goTo(target: number | string) {
+    if (!this.running) return
+    const index = this.findStep(target)
+    if (index < 0) {
+      console.warn(`[PointerJS] No step found for '${target}'.`)
+      return
+    }
+    if (this.leaveStep()) this.history.push(this.stepIndex)
+    this.direction = index < this.stepIndex ? -1 : 1
+    this.stepIndex = index
+    this.runStep()
+  }
+
+  /**
+   * Subscribe to a flow event.
+   * @param event Event name
+   * @param listener Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof FlowEvents>(event: K, listener: FlowEvents[K]) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribe from a flow event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof FlowEvents>(event: K, listener: FlowEvents[K]) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Resume a persisted flow from the step it was left at.
+   * @param steps Steps to use instead of the persisted ones
+   * @returns Whether a persisted flow was found and resumed
+   */
+  resume(steps?: OnboardingStep[]): boolean {
+    assertBrowser('FlowManager.resume')
+    const state = readPersistedFlow(this.flowOptions)
+    if (!state) return false
+    this.begin(
+      steps ?? skipUnserializable(state.steps),
+      state.step,
+      state.history ?? [],
+    )
+    return true
+  }
+
   private runStep() {
-    if (!this.running || this.currentStep >= this.steps.length) {
-      this.stop()
+    if (!this.running) return
+    if (this.stepIndex >= this.steps.length) {
+      this.finish()
       return
     }
-    const step = this.steps[this.currentStep]
-    if (step.url && window.location.pathname !== step.url) {
+    this.persist()
+    const runId = ++this.runId
+    this.stepAbort?.abort()
+    this.stepAbort = new AbortController()
+    const step = this.steps[this.stepIndex]
+    if (step.url && !isCurrentURL(step.url)) {
+      if (this.flowOptions.navigate) {
+        Promise.resolve(this.flowOptions.navigate(step.url)).then(
+          () => {
+            if (runId === this.runId) this.beginStep(step, runId)
+          },
+          (error) => {
+            console.warn(
+              `[PointerJS] Navigation to '${step.url}' failed.`,
+              error,
+            )
+            this.cancel()
+          },
+        )
+        return
+      }
+      // Full page load, the flow continues via resumeOnboarding() on the new page
+      this.teardown()
       window.location.href = step.url
-      // Wait for navigation, then continue
-      window.addEventListener(
-        'DOMContentLoaded',
-        () => {
-          setTimeout(() => this.runStep(), 300)
-        },
-        { once: true },
-      )
       return
     }
-    const el = document.querySelector(step.element) as HTMLElement | null
+    this.beginStep(step, runId)
+  }
+
+  // showStep is never awaited, so errors it did not handle are reported here
+  private beginStep(step: OnboardingStep, runId: number) {
+    this.showStep(step, runId).catch((error) => {
+      console.warn(
+        `[PointerJS] Showing the step failed (step ${this.stepIndex + 1}).`,
+        error,
+      )
+    })
+  }
+
+  private async showStep(step: OnboardingStep, runId: number) {
+    const context = this.getContext(step)
+    if (step.when) {
+      let included: boolean
+      try {
+        const result = step.when(context)
+        // Only await when needed so synchronous steps render immediately
+        included = typeof result === 'boolean' ? result : await result
+      } catch (error) {
+        console.warn(
+          `[PointerJS] when failed (step ${context.index + 1}).`,
+          error,
+        )
+        included = false
+      }
+      if (runId !== this.runId) return
+      if (!included) {
+        this.skipStep(context, 'condition')
+        return
+      }
+    }
+    if (step.onBeforeShow) {
+      let allowed: boolean | void
+      try {
+        allowed = await step.onBeforeShow(context)
+      } catch (error) {
+        console.warn(
+          `[PointerJS] onBeforeShow failed (step ${context.index + 1}).`,
+          error,
+        )
+        allowed = false
+      }
+      if (runId !== this.runId) return
+      if (allowed === false) {
+        this.skipStep(context, 'vetoed')
+        return
+      }
+    }
+    let el: HTMLElement | null
+    try {
+      el = resolveElement(step.element)
+      const wait = step.wait ?? this.flowOptions.wait
+      if (!el && wait !== false) {
+        el = await waitForElement(step.element, wait, this.stepAbort?.signal)
+      }
+    } catch (error) {
+      console.warn(
+        `[PointerJS] Resolving the element failed (step ${context.index + 1}).`,
+        error,
+      )
+      el = null
+    }
+    if (runId !== this.runId) return
+    if (el) {
+      this.presentStep(context, el)
+    } else {
+      this.handleMissing(context)
+    }
+  }
+
+  private presentStep(context: StepContext, el: HTMLElement | null) {
+    const { step } = context
+    this.activeStep = context
+    this.stepTarget = el
+    if (step.annotations?.length) this.ensureAnnotations().add(step.annotations)
+    const { progress } = this.flowOptions
+    this.pointer!.setProgress(
+      progress
+        ? { current: context.index + 1, total: context.total, style: progress }
+        : null,
+    )
     if (el) {
       this.pointer!.show()
-      this.pointer!.moveToElement(el, step.note, this.currentStep === 0)
-      // Advance on click of the target element
-      const next = () => {
-        el.removeEventListener('click', next)
-        this.advanceStep()
-      }
-      el.addEventListener('click', next)
+      this.pointer!.moveToElement(el, step.note, this.stepIndex === 0, {
+        placement: step.placement,
+        pointerStyle: step.pointerStyle,
+      })
     } else {
-      // If element not found, skip to next and warn
+      this.pointer!.showNote(step.note)
+    }
+    const { announce } = this.flowOptions
+    if (announce) {
+      const { locale, messages } = this.pointerOptions
+      this.pointer!.announce(
+        typeof announce === 'function'
+          ? announce(context)
+          : formatMessage(resolveMessages(locale, messages).stepAnnouncement, {
+              current: context.index + 1,
+              total: context.total,
+            }),
+      )
+    }
+    this.recordState({ seen: true, lastStep: context.index })
+    const shown = { ...context, element: el }
+    try {
+      step.onAfterShow?.(shown)
+    } catch (error) {
+      console.warn(
+        `[PointerJS] onAfterShow failed (step ${context.index + 1}).`,
+        error,
+      )
+    }
+    this.events.emit('stepShown', shown)
+    // Listeners are removed with the step's abort signal on any step change
+    const signal = this.stepAbort?.signal
+    if (signal && this.activeStep === context) {
+      watchAdvance(
+        step.advanceOn ?? this.flowOptions.advanceOn!,
+        el,
+        () => this.advanceStep(),
+        signal,
+      )
+    }
+  }
+
+  private handleMissing(context: StepContext) {
+    const { step } = context
+    const message = `Element not found for ${describeTarget(step.element)} (step ${context.index + 1})`
+    switch (step.missing ?? this.flowOptions.missing) {
+      case 'stop':
+        console.warn(`[PointerJS] ${message}, stopping onboarding.`)
+        this.cancel()
+        break
+      case 'center':
+        this.presentStep(context, null)
+        break
+      case 'error':
+        this.events.emit('error', {
+          ...context,
+          error: new Error(`[PointerJS] ${message}`),
+        })
+        this.cancel()
+        break
+      default:
+        // If element not found, skip to next and warn
+        console.warn(`[PointerJS] ${message}`)
+        this.skipStep(context, 'notFound')
+    }
+  }
+
+  private getContext(step: OnboardingStep): StepContext {
+    return {
+      step,
+      index: this.stepIndex,
+      total: this.steps.length,
+      data: this.flowOptions.data!,
+    }
+  }
+
+  // Index of a step by index or id, -1 if there is none
+  private findStep(target: number | string): number {
+    if (typeof target === 'number') {
+      return target >= 0 && target < this.steps.length ? target : -1
+    }
+    return this.steps.findIndex((step) => step.id === target)
+  }
+
+  // Index of the step following the given one, or null to end the flow
+  private resolveNext(context: StepContext): number | null {
+    const { next } = context.step
+    const target = typeof next === 'function' ? next(context) : next
+    if (target === null) return null
+    if (target === undefined) return context.index + 1
+    const index = this.findStep(target)
+    if (index < 0) {
       console.warn(
-        `[PointerJS] Element not found for selector: '${step.element}' (step ${this.currentStep + 1})`,
+        `[PointerJS] No step found for '${target}', continuing with the following step.`,
       )
-      this.advanceStep()
+      return context.index + 1
     }
+    return index
+  }
+
+  // Continue in the current direction, falling forward at the first step
+  private skipStep(context: StepContext, reason: SkipReason) {
+    this.events.emit('stepSkipped', { ...context, reason })
+    if (this.direction === -1 && this.history.length > 0) {
+      this.stepIndex = this.history.pop()!
+    } else {
+      this.direction = 1
+      this.stepIndex++
+    }
+    this.runStep()
+  }
+
+  // Call onLeave for the step currently shown
+  private leaveStep(): StepContext | null {
+    const context = this.activeStep
+    this.activeStep = null
+    this.stepTarget = null
+    this.annotations?.clear()
+    if (context?.step.onLeave) {
+      try {
+        context.step.onLeave(context)
+      } catch (error) {
+        console.warn(
+          `[PointerJS] onLeave failed (step ${context.index + 1}).`,
+          error,
+        )
+      }
+    }
+    return context
   }
 
   private advanceStep() {
-    this.currentStep++
+    const shown = this.leaveStep()
+    const context = shown ?? this.getContext(this.steps[this.stepIndex])
+    this.events.emit('next', context)
+    const next = this.resolveNext(context)
+    if (shown) this.history.push(this.stepIndex)
+    this.direction = 1
+    this.stepIndex = next ?? this.steps.length
     this.runStep()
   }
 
+  // Return to the previously shown step
   private goBackStep() {
-    if (this.currentStep > 0) {
-      this.currentStep--
+    if (this.history.length > 0) {
+      const context =
+        this.leaveStep() ?? this.getContext(this.steps[this.stepIndex])
+      this.events.emit('back', context)
+      this.direction = -1
+      this.stepIndex = this.history.pop()!
       this.runStep()
     }
   }
 
+  private finish() {
+    this.teardown()
+    if (this.storage) this.storage.removeItem(this.flowOptions.storageKey!)
+    this.recordState({ completed: true, dismissedAt: undefined })
+    this.events.emit('complete')
+    this.end('completed')
+  }
+
+  // Remembered state for the current version of the flow, outdated state is discarded
+  private getTourState(): TourState | null {
+    if (!this.tourState) return null
+    const id = this.flowOptions.id!
+    const state = this.tourState.get(id)
+    if (state && state.version !== this.flowOptions.version) {
+      this.tourState.reset(id)
+      return null
+    }
+    return state
+  }
+
+  private recordState(patch: Partial<TourState>) {
+    this.tourState?.update(this.flowOptions.id!, {
+      ...patch,
+      version: this.flowOptions.version,
+    })
+  }
+
+  private resetFinished() {
+    this._finished = new Promise((resolve) => {
+      this.settle = resolve
+    })
+  }
+
+  private end(status: FlowResult['status']) {
+    this._status = status
+    this.settle?.({ status, step: this.stepIndex })
+    this.settle = null
+  }
+
+  // Stop clicks outside the note and, in "target" mode, the current target
+  private blockInteraction = (e: Event) => {
+    const path = e.composedPath()
+    const allowed = path.some(
+      (node) =>
+        node instanceof Element &&
+        (node.classList.contains('pointerjs') ||
+          (this.flowOptions.interaction === 'target' &&
+            node === this.stepTarget)),
+    )
+    if (allowed) return
+    e.preventDefault()
+    e.stopImmediatePropagation()
+  }
+
+  private persist() {
+    if (!this.storage) return
+    const state: PersistedFlow = {
+      id: this.flowOptions.id ?? DEFAULT_FLOW_ID,
+      step: this.stepIndex,
+      history: this.history,
+      steps: this.steps,
+      // Functions, adapters and constructed stylesheets cannot be serialized
+      pointerOptions: {
+        ...this.pointerOptions,
+        stylesheet:
+          typeof this.pointerOptions.stylesheet === 'string'
+            ? this.pointerOptions.stylesheet
+            : undefined,
+      },
+      flowOptions: {
+        ...this.flowOptions,
+        persist: undefined,
+        navigate: undefined,
+        stateStorage: undefined,
+      },
+    }
+    writeJSON(this.storage, this.flowOptions.storageKey!, state)
+  }
+
   /**
-   * Stop the onboarding flow and hide the pointer.
+   * Stop the onboarding flow, hide the pointer and clear persisted progress.
+   * Stopping a flow that has not started yet cancels it.
    */
   stop() {
+    const context = this.running
+      ? (this.leaveStep() ?? this.getContext(this.steps[this.stepIndex]))
+      : null
+    this.teardown()
+    if (this.storage) this.storage.removeItem(this.flowOptions.storageKey!)
+    if (context) {
+      this.recordState({ dismissedAt: context.index })
+      this.events.emit('dismiss', context)
+      this.end('dismissed')
+    } else if (this._status === 'idle') {
+      this.end('cancelled')
+    }
+  }
+
+  /**
+   * Stop the flow without it counting as a dismissal: no `dismiss` event and
+   * nothing remembered for `showOnce`. The flow ends as cancelled, e.g. when
+   * the component showing it unmounts.
+   */
+  cancel() {
+    const wasRunning = this.running
+    if (wasRunning) this.leaveStep()
+    this.teardown()
+    if (this.storage) this.storage.removeItem(this.flowOptions.storageKey!)
+    if (wasRunning || this._status === 'idle') this.end('cancelled')
+  }
+
+  /**
+   * Stop the flow, remove the pointer from the DOM and all listeners.
+   */
+  destroy() {
+    this.stop()
+    this.releasePointer()
+    this.events.clear()
+  }
+
+  /**
+   * Remove the pointer from the DOM, keeping event listeners. It is created
+   * again when the flow starts, e.g. after `startOnboarding` released it.
+   */
+  releasePointer() {
+    this.pointer?.destroy()
+    this.pointer = null
+    this.annotations = null
+  }
+
+  private teardown() {
+    // Listeners only exist while running, which also keeps stop() DOM-free on the server
+    const wasRunning = this.running
     this.running = false
+    this.runId++
+    this.stepAbort?.abort()
+    this.stepAbort = null
+    this.activeStep = null
     if (this.pointer) {
       this.pointer.hide()
     }
-    // Re-enable scroll via JS
-    if (this._prevOverflow !== undefined) {
-      document.body.style.overflow = this._prevOverflow
-      this._prevOverflow = undefined
+    this.annotations?.clear()
+    this.stepTarget = null
+    this.releaseScroll?.()
+    this.releaseScroll = null
+    if (wasRunning && this.flowOptions.interaction !== 'all') {
+      for (const type of BLOCKED_EVENTS) {
+        window.removeEventListener(type, this.blockInteraction, true)
+      }
     }
     if (this.keyHandler) {
       window.removeEventListener('keydown', this.keyHandler)
       this.keyHandler = null
     }
+    if (this.focusOrigin?.isConnected) this.focusOrigin.focus()
+    this.focusOrigin = null
   }
 
   /**
@@ -154,36 +972,142 @@ export class FlowManager {
    * @param y Y coordinate
    */
   setInitialPosition(x: number, y: number) {
+    this.ensurePointer().setInitialPosition(x, y)
+  }
+
+  private ensurePointer(): Pointer {
     if (!this.pointer) {
       this.pointer = new Pointer(this.pointerOptions)
+      this.pointer.on('action', this.handleAction)
+    }
+    return this.pointer
+  }
+
+  // Annotations share the pointer's container and navigate like its note
+  private ensureAnnotations(): Annotations {
+    if (!this.annotations) {
+      this.annotations = this.ensurePointer().annotations
+      this.annotations.on('action', (_id, action) => this.handleAction(action))
+    }
+    return this.annotations
+  }
+
+  // Navigate in response to note buttons
+  private handleAction = (action: NoteAction) => {
+    if (!this.running) return
+    switch (action) {
+      case 'next':
+        this.advanceStep()
+        break
+      case 'back':
+        this.goBackStep()
+        break
+      case 'skip':
+        this.stop()
+        break
+      case 'done':
+        this.leaveStep()
+        this.finish()
+        break
+    }
+  }
+}
+
+// Flow started through startOnboarding/resumeOnboarding, and flows waiting for it
+let activeFlow: FlowManager | null = null
+const queuedFlows: Array<{ flow: FlowManager; run: () => void }> = []
+
+// Start a flow according to its concurrency policy
+function launch(flow: FlowManager, policy: ConcurrencyPolicy, run: () => void) {
+  const start = () => {
+    activeFlow = flow
+    // Release the pointer once done and hand over to the next queued flow
+    const release = () => {
+      // Restarted meanwhile, wait for the new run to end
+      if (flow.status === 'running') {
+        flow.finished.then(release)
+        return
+      }
+      // The caller may start the flow again, so its listeners stay
+      flow.releasePointer()
+      if (activeFlow !== flow) return
+      activeFlow = null
+      let next = queuedFlows.shift()
+      // Skip flows that were stopped while queued
+      while (next && next.flow.status !== 'idle') next = queuedFlows.shift()
+      next?.run()
     }
-    this.pointer.setInitialPosition(x, y)
+    flow.finished.then(release)
+    run()
+  }
+  if (activeFlow?.status !== 'running') {
+    start()
+  } else if (policy === 'queue') {
+    queuedFlows.push({ flow, run: start })
+  } else if (policy === 'reject') {
+    console.warn('[PointerJS] An onboarding flow is already running.')
+    flow.destroy()
+  } else {
+    activeFlow.cancel()
+    start()
   }
 }
 
-// Singleton API for easy integration
-let flowManager: FlowManager | null = null
 /**
  * Start an onboarding flow with steps and options.
  * @param steps Array of onboarding steps
  * @param pointerOptions Pointer customization options
  * @param event Optional MouseEvent to set initial pointer position
  * @param flowOptions Options for onboarding flow behavior
+ * @returns The flow, to navigate it, listen to events or await `finished`
  */
 export function startOnboarding(
   steps: OnboardingStep[],
   pointerOptions: PointerOptions = {},
   event?: MouseEvent,
   flowOptions: FlowOptions = {},
-) {
-  if (!flowManager) flowManager = new FlowManager(pointerOptions, flowOptions)
+): FlowManager {
+  assertBrowser('startOnboarding')
+  const flow = new FlowManager(pointerOptions, flowOptions)
 
   // If event is provided, set initial pointer position
   if (event) {
     const x = event.clientX - 16 // Center the pointer on the click
     const y = event.clientY - 16
-    flowManager.setInitialPosition(x, y)
+    flow.setInitialPosition(x, y)
   }
 
-  flowManager.start(steps)
+  launch(flow, flowOptions.concurrency ?? 'replace', () => flow.start(steps))
+  return flow
+}
+
+/**
+ * Resume an onboarding flow persisted by a previous page, e.g. after a `url` step.
+ * Call this on every page load that can be part of a multi-page flow.
+ * Functions like `navigate` are not persisted, pass them again to keep using them.
+ * @param flowOptions Options for onboarding flow behavior, must use the same storage as the original flow
+ * @param steps Optional steps to use instead of the persisted ones
+ * @returns The resumed flow, or null if no persisted flow was found
+ */
+export function resumeOnboarding(
+  flowOptions: FlowOptions = {},
+  steps?: OnboardingStep[],
+): FlowManager | null {
+  assertBrowser('resumeOnboarding')
+  const state = readPersistedFlow(flowOptions)
+  if (!state) return null
+  const options = { ...state.flowOptions, ...flowOptions }
+  const flow = new FlowManager(state.pointerOptions, options)
+  // The state may have been cleared while waiting
+  const resume = () => {
+    if (!flow.resume(steps)) flow.stop()
+  }
+  launch(flow, options.concurrency ?? 'replace', () => {
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', resume, { once: true })
+    } else {
+      resume()
+    }
+  })
+  return flow
 }
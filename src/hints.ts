@@ -0,0 +1,398 @@
+import {
+  renderNote,
+  sanitizeHTML,
+  type NoteAction,
+  type NoteContent,
+  type Sanitizer,
+} from './content'
+import { getViewportRect, resolveElement, type ElementTarget } from './dom'
+import { assertBrowser } from './env'
+import { Emitter } from './events'
+import { resolveMessages, type Messages } from './i18n'
+import { createLayer, LayoutWatcher } from './layer'
+import {
+  readJSON,
+  resolveStorage,
+  writeJSON,
+  type StorageAdapter,
+  type StorageOption,
+} from './storage'
+import { noteStyles, type Theme } from './theme'
+
+/**
+ * A contextual hint shown as a pulsing beacon on an element.
+ */
+export interface Hint {
+  /** Unique id, used to dismiss the hint */
+  id: string
+  /** CSS selector for the target element, chained with `>>>` to enter shadow roots and iframes, or a function returning it */
+  element: ElementTarget
+  note: NoteContent
+  /** Open the note on click or hover (default: HintsOptions.trigger) */
+  trigger?: 'click' | 'hover'
+}
+
+/**
+ * Options for the hints manager.
+ */
+export interface HintsOptions {
+  /** Beacon and note color (default: #8BD3E6) */
+  color?: string
+  /** Font family for notes (default: inherit) */
+  fontFamily?: string
+  /** Font size for notes (default: 14px) */
+  fontSize?: string
+  /** Note color preset (default: notes use the beacon color) */
+  theme?: Theme
+  /** Beacon size in px (default: 16) */
+  beaconSize?: number
+  /** Open notes on click or hover (default: "click") */
+  trigger?: 'click' | 'hover'
+  /** Label of the button that dismisses a hint, or false to hide it (default: the dismissHint message) */
+  dismissLabel?: string | false
+  /** Language of built-in strings, see registerLocale (default: English) */
+  locale?: string
+  /** Built-in strings overriding the locale */
+  messages?: Partial<Messages>
+  /** Where to remember dismissed hints, or false to forget them (default: "local") */
+  persist?: StorageOption | false
+  /** Storage key for dismissed hints (default: "pointerjs:hints") */
+  storageKey?: string
+  /** Sanitizer for HTML in rich notes, or false to trust it (default: built-in) */
+  sanitize?: Sanitizer | false
+}
+
+/**
+ * Events emitted by a Hints manager.
+ */
+export type HintsEvents = {
+  open: (id: string) => void
+  close: (id: string) => void
+  dismiss: (id: string) => void
+}
+
+interface HintEntry {
+  hint: Hint
+  beacon: HTMLButtonElement
+  target: HTMLElement | null
+}
+
+/**
+ * Manages non-blocking hints: beacons on elements that open a note when clicked or hovered.
+ * Unlike a flow, hints never lock scrolling and can be dismissed one by one.
+ */
+export class Hints {
+  private shadowRoot: ShadowRoot
+  private container: HTMLElement
+  private noteEl: HTMLElement
+  private options: HintsOptions
+  private messages: Messages
+  private entries = new Map<string, HintEntry>()
+  private openId: string | null = null
+  private storage: StorageAdapter | null
+  private dismissed: Set<string>
+  private events = new Emitter<HintsEvents>()
+  private layout = new LayoutWatcher(() => this.refresh())
+  private closeTimer: ReturnType<typeof setTimeout> | undefined
+
+  /**
+   * Create a new Hints manager.
+   * @param options HintsOptions for customizing hints
+   */
+  constructor(options: HintsOptions = {}) {
+    assertBrowser('Hints')
+    this.messages = resolveMessages(options.locale, options.messages)
+    this.options = {
+      color: options.color || '#8BD3E6',
+      fontFamily: options.fontFamily || 'inherit',
+      fontSize: options.fontSize || '14px',
+      theme: options.theme,
+      beaconSize: options.beaconSize ?? 16,
+      trigger: options.trigger || 'click',
+      dismissLabel: options.dismissLabel ?? this.messages.dismissHint,
+      persist: options.persist ?? 'local',
+      storageKey: options.storageKey || 'pointerjs:hints',
+      sanitize: options.sanitize ?? sanitizeHTML,
+    }
+    this.storage = this.options.persist
+      ? resolveStorage(this.options.persist)
+      : null
+    this.dismissed = new Set(
+      (this.storage &&
+        readJSON<string[]>(this.storage, this.options.storageKey!)) ||
+        [],
+    )
+
+    const layer = createLayer('pointerjs pointerjs-hints', 999998)
+    this.container = layer.container
+    this.shadowRoot = layer.shadowRoot
+
+    const size = this.options.beaconSize!
+    const style = document.createElement('style')
+    style.textContent = `
+      .beacon {
+        position: absolute;
+        width: ${size}px;
+        height: ${size}px;
+        padding: 0;
+        border: none;
+        border-radius: 50%;
+        background: var(--pointerjs-color);
+        cursor: pointer;
+        pointer-events: auto;
+      }
+      .beacon::after {
+        content: '';
+        position: absolute;
+        inset: 0;
+        border-radius: 50%;
+        background: var(--pointerjs-color);
+        animation: beacon-pulse 1.5s ease-out infinite;
+      }
+      @keyframes beacon-pulse {
+        from { transform: scale(1); opacity: 0.6; }
+        to { transform: scale(2.5); opacity: 0; }
+      }
+      @media (prefers-reduced-motion: reduce) {
+        .beacon::after { animation: none; }
+      }
+      ${noteStyles(this.options)}
+    `
+    this.shadowRoot.append(style)
+
+    this.noteEl = document.createElement('div')
+    this.noteEl.className = 'note'
+    this.noteEl.setAttribute('part', 'note')
+    this.noteEl.style.display = 'none'
+    this.noteEl.setAttribute('role', 'tooltip')
+    this.noteEl.addEventListener('mouseenter', this.cancelClose)
+    this.noteEl.addEventListener('mouseleave', this.scheduleClose)
+    this.shadowRoot.append(this.noteEl)
+
+    this.layout.watch()
+    window.addEventListener('keydown', this.onKeyDown)
+  }
+
+  /**
+   * Register one or more hints. Dismissed hints are ignored.
+   * @param hints Hint or hints to show
+   */
+  add(hints: Hint | Hint[]): void {
+    for (const hint of Array.isArray(hints) ? hints : [hints]) {
+      this.remove(hint.id)
+      if (this.dismissed.has(hint.id)) continue
+      const beacon = document.createElement('button')
+      beacon.type = 'button'
+      beacon.className = 'beacon'
+      beacon.setAttribute('part', 'beacon')
+      beacon.setAttribute('aria-label', this.messages.showHint)
+      beacon.setAttribute('aria-expanded', 'false')
+      beacon.addEventListener('click', () =>
+        this.openId === hint.id ? this.close() : this.open(hint.id),
+      )
+      if ((hint.trigger ?? this.options.trigger) === 'hover') {
+        beacon.addEventListener('mouseenter', () => {
+          this.cancelClose()
+          this.open(hint.id)
+        })
+        beacon.addEventListener('mouseleave', this.scheduleClose)
+      }
+      this.shadowRoot.append(beacon)
+      const entry = { hint, beacon, target: null }
+      this.entries.set(hint.id, entry)
+      this.position(entry)
+    }
+  }
+
+  /**
+   * Remove a hint without remembering it as dismissed.
+   * @param id Hint id
+   */
+  remove(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+    if (this.openId === id) this.close()
+    entry.beacon.remove()
+    this.entries.delete(id)
+  }
+
+  /**
+   * Remove a hint and remember that the user dismissed it.
+   * @param id Hint id
+   */
+  dismiss(id: string): void {
+    this.remove(id)
+    this.dismissed.add(id)
+    this.saveDismissed()
+    this.events.emit('dismiss', id)
+  }
+
+  /**
+   * Whether a hint was dismissed.
+   * @param id Hint id
+   */
+  isDismissed(id: string): boolean {
+    return this.dismissed.has(id)
+  }
+
+  /**
+   * Forget dismissals so hints are shown again when added.
+   * @param id Hint id (default: all hints)
+   */
+  reset(id?: string): void {
+    if (id === undefined) this.dismissed.clear()
+    else this.dismissed.delete(id)
+    this.saveDismissed()
+  }
+
+  /**
+   * Open the note of a hint.
+   * @param id Hint id
+   */
+  open(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry?.target) return
+    if (this.openId) this.close()
+    this.openId = id
+    const { note } = entry.hint
+    const content = renderNote(
+      note,
+      this.options.sanitize ?? sanitizeHTML,
+      this.handleAction,
+      this.messages,
+    )
+    this.noteEl.replaceChildren(content)
+    if (this.options.dismissLabel) {
+      const buttons = document.createElement('div')
+      buttons.className = 'note-buttons'
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.className = 'note-button'
+      button.textContent = this.options.dismissLabel
+      button.addEventListener('click', () => this.dismiss(id))
+      buttons.append(button)
+      this.noteEl.append(buttons)
+    }
+    this.noteEl.id = `pointerjs-hint-${id}`
+    entry.beacon.setAttribute('aria-expanded', 'true')
+    entry.beacon.setAttribute('aria-describedby', this.noteEl.id)
+    this.noteEl.style.display = 'block'
+    this.position(entry)
+    this.events.emit('open', id)
+  }
+
+  /**
+   * Close the open note, if any.
+   */
+  close(): void {
+    const id = this.openId
+    if (!id) return
+    this.openId = null
+    clearTimeout(this.closeTimer)
+    this.noteEl.style.display = 'none'
+    this.noteEl.replaceChildren()
+    const entry = this.entries.get(id)
+    entry?.beacon.setAttribute('aria-expanded', 'false')
+    entry?.beacon.removeAttribute('aria-describedby')
+    this.events.emit('close', id)
+  }
+
+  /**
+   * Re-position all beacons, e.g. after a layout change.
+   * Called automatically when the page scrolls or resizes.
+   */
+  refresh(): void {
+    for (const entry of this.entries.values()) this.position(entry)
+  }
+
+  /**
+   * Subscribe to a hints event.
+   * @param event Event name
+   * @param listener Callback invoked with the hint id
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof HintsEvents>(event: K, listener: HintsEvents[K]) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribe from a hints event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof HintsEvents>(event: K, listener: HintsEvents[K]) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Remove all hints from the DOM, along with their listeners.
+   */
+  destroy(): void {
+    clearTimeout(this.closeTimer)
+    this.layout.unwatch()
+    window.removeEventListener('keydown', this.onKeyDown)
+    this.entries.clear()
+    this.events.clear()
+    this.container.remove()
+  }
+
+  // Beacon sits on the target's top end corner, the note below it or above if needed
+  private position(entry: HintEntry) {
+    const target = resolveElement(entry.hint.element)
+    entry.target = target
+    if (!target) {
+      entry.beacon.style.display = 'none'
+      if (this.openId === entry.hint.id) this.close()
+      return
+    }
+    const size = this.options.beaconSize!
+    const rect = getViewportRect(target)
+    const rtl = target.closest('[dir]')?.getAttribute('dir') === 'rtl'
+    const x = (rtl ? rect.left : rect.right) - size / 2
+    const y = rect.top - size / 2
+    entry.beacon.style.display = 'block'
+    entry.beacon.style.left = `${x}px`
+    entry.beacon.style.top = `${y}px`
+    if (this.openId !== entry.hint.id) return
+
+    const margin = 8
+    const noteWidth = this.noteEl.offsetWidth
+    const noteHeight = this.noteEl.offsetHeight
+    let noteTop = y + size + margin
+    if (noteTop + noteHeight > window.innerHeight - margin) {
+      noteTop = y - noteHeight - margin
+    }
+    const noteLeft = Math.min(
+      Math.max(margin, x + size / 2 - noteWidth / 2),
+      window.innerWidth - noteWidth - margin,
+    )
+    this.noteEl.style.left = `${noteLeft}px`
+    this.noteEl.style.top = `${Math.max(margin, noteTop)}px`
+  }
+
+  private saveDismissed() {
+    if (!this.storage) return
+    writeJSON(this.storage, this.options.storageKey!, [...this.dismissed])
+  }
+
+  // Buttons in hint notes: done and skip dismiss the hint, the others close it
+  private handleAction = (action: NoteAction) => {
+    const id = this.openId
+    if (!id) return
+    if (action === 'done' || action === 'skip') this.dismiss(id)
+    else this.close()
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') this.close()
+  }
+
+  private scheduleClose = () => {
+    clearTimeout(this.closeTimer)
+    this.closeTimer = setTimeout(() => this.close(), 200)
+  }
+
+  private cancelClose = () => {
+    clearTimeout(this.closeTimer)
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Built-in strings. Templates use `{name}` placeholders.
+ */
+export interface Messages {
+  /** Label of "next" note buttons */
+  next: string
+  /** Label of "back" note buttons */
+  back: string
+  /** Label of "skip" note buttons */
+  skip: string
+  /** Label of "done" note buttons */
+  done: string
+  /** Visible text progress, with {current} and {total} */
+  progress: string
+  /** Progress read by screen readers, with {current} and {total} */
+  progressLabel: string
+  /** Announcement of a step change, with {current} and {total} */
+  stepAnnouncement: string
+  /** Accessible label of hint beacons */
+  showHint: string
+  /** Label of the button dismissing a hint */
+  dismissHint: string
+}
+
+/**
+ * English messages, used for anything a locale does not translate.
+ */
+export const DEFAULT_MESSAGES: Messages = {
+  next: 'Next',
+  back: 'Back',
+  skip: 'Skip',
+  done: 'Done',
+  progress: '{current} of {total}',
+  progressLabel: 'Step {current} of {total}',
+  stepAnnouncement: 'Step {current} of {total}',
+  showHint: 'Show hint',
+  dismissHint: 'Got it',
+}
+
+const locales = new Map<string, Partial<Messages>>([['en', DEFAULT_MESSAGES]])
+
+/**
+ * Register translations for a locale, e.g. "de" or "pt-BR".
+ * @param locale BCP 47 language tag
+ * @param messages Translated messages; missing ones fall back to English
+ */
+export function registerLocale(
+  locale: string,
+  messages: Partial<Messages>,
+): void {
+  locales.set(locale.toLowerCase(), messages)
+}
+
+/**
+ * Get the messages for a locale, falling back from "pt-BR" to "pt" to English.
+ * @param locale BCP 47 language tag (default: English)
+ * @param overrides Messages taking precedence over the locale
+ */
+export function resolveMessages(
+  locale?: string,
+  overrides?: Partial<Messages>,
+): Messages {
+  const tag = locale?.toLowerCase()
+  const translated =
+    (tag && (locales.get(tag) ?? locales.get(tag.split('-')[0]))) || {}
+  return { ...DEFAULT_MESSAGES, ...translated, ...overrides }
+}
+
+/**
+ * Replace `{name}` placeholders in a message. Unknown placeholders are kept.
+ * @param template Message with placeholders
+ * @param values Values by placeholder name
+ */
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replaceAll(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  )
+}
@@ -1,4 +1,90 @@
 export { Pointer } from './pointer'
-export type { PointerOptions } from './pointer'
-export { startOnboarding } from './flow'
-export type { OnboardingStep } from './flow'
+export type {
+  MoveOptions,
+  MovePolicy,
+  PointerEvents,
+  PointerOptions,
+} from './pointer'
+export type { Easing, EasingName, PathMode } from './animation'
+export type { Theme } from './theme'
+export { formatMessage, registerLocale } from './i18n'
+export type { Messages } from './i18n'
+export { registerPointerShape } from './shapes'
+export type { PointerShape, PointerStyle } from './shapes'
+export { computePlacement } from './placement'
+export type {
+  Alignment,
+  Placement,
+  PlacementInput,
+  PlacementResult,
+  Side,
+  Size,
+} from './placement'
+export { sanitizeHTML } from './content'
+export type {
+  NoteAction,
+  NoteButton,
+  NoteContent,
+  NoteProgress,
+  ProgressStyle,
+  RichNote,
+  Sanitizer,
+} from './content'
+export type { OverlayOptions, Rect } from './overlay'
+export { FlowManager, resumeOnboarding, startOnboarding } from './flow'
+export type {
+  ConcurrencyPolicy,
+  FlowEvents,
+  FlowKeyAction,
+  FlowOptions,
+  FlowResult,
+  FlowStatus,
+  InteractionMode,
+  KeyBindings,
+  MissingElementPolicy,
+  OnboardingStep,
+  PersistedFlow,
+  SkipReason,
+  StepContext,
+  StepShownContext,
+} from './flow'
+export { Annotations } from './annotations'
+export type {
+  Annotation,
+  AnnotationsEvents,
+  AnnotationsHost,
+  AnnotationsOptions,
+} from './annotations'
+export { Recorder } from './recorder'
+export type { RecorderEvents, RecorderOptions } from './recorder'
+export { getSelector } from './selector'
+export type { SelectorOptions } from './selector'
+export { Hints } from './hints'
+export type { Hint, HintsEvents, HintsOptions } from './hints'
+export {
+  parseTour,
+  stepsFromDOM,
+  tourSchema,
+  TourValidationError,
+  validateTour,
+} from './loader'
+export type { TourDefinition } from './loader'
+export { createMemoryStorage } from './storage'
+export type { StorageAdapter, StorageOption } from './storage'
+export {
+  getTourState,
+  hasCompleted,
+  resetTour,
+  TourStateStore,
+} from './tour-state'
+export type { TourState } from './tour-state'
+export type { AdvanceOn, AdvanceTrigger } from './advance'
+export {
+  getViewportRect,
+  queryDeep,
+  resolveElement,
+  scrollIntoViewIfNeeded,
+} from './dom'
+export type { ElementResolver, ElementTarget } from './dom'
+export { waitForElement, waitForScrollEnd } from './wait'
+export type { WaitOptions } from './wait'
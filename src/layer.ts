@@ -0,0 +1,93 @@
+/**
+ * A full-viewport container above the page and its shadow root.
+ */
+export interface Layer {
+  container: HTMLElement
+  shadowRoot: ShadowRoot
+}
+
+/**
+ * Create a container covering the viewport, attach shadow DOM and add it to
+ * the page. It lets clicks through, its children opt in to pointer events.
+ * @param className Class names of the container
+ * @param zIndex Stacking order of the container
+ */
+export function createLayer(className: string, zIndex: number): Layer {
+  const container = document.createElement('div')
+  container.className = className
+  Object.assign(container.style, {
+    position: 'fixed',
+    top: '0',
+    left: '0',
+    width: '100vw',
+    height: '100vh',
+    pointerEvents: 'none',
+    zIndex: String(zIndex),
+  })
+  document.body.append(container)
+  return { container, shadowRoot: container.attachShadow({ mode: 'open' }) }
+}
+
+/**
+ * Calls back at most once per animation frame while watched elements resize
+ * or the page scrolls or resizes, so positions can follow the layout.
+ */
+export class LayoutWatcher {
+  private refresh: () => void
+  private resizeObserver: ResizeObserver | null = null
+  private scrollRoots: EventTarget[] = []
+  private frame = 0
+
+  /**
+   * @param refresh Callback re-positioning the layer's elements
+   */
+  constructor(refresh: () => void) {
+    this.refresh = refresh
+  }
+
+  /**
+   * Start watching, replacing what was watched before.
+   * @param elements Elements whose size changes trigger a refresh (default: the body)
+   * @param scrollRoots Windows and shadow roots whose scrolls trigger a refresh (default: the window)
+   */
+  watch(
+    elements: Element[] = [document.body],
+    scrollRoots: EventTarget[] = [window],
+  ): void {
+    this.unwatch()
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(this.schedule)
+      for (const el of elements) this.resizeObserver.observe(el)
+    }
+    window.addEventListener('resize', this.schedule)
+    // Capture scrolls of any scrollable ancestor, not just the roots themselves
+    this.scrollRoots = scrollRoots
+    for (const root of scrollRoots) {
+      root.addEventListener('scroll', this.schedule, true)
+    }
+  }
+
+  /**
+   * Stop watching and drop a pending refresh.
+   */
+  unwatch(): void {
+    this.resizeObserver?.disconnect()
+    this.resizeObserver = null
+    cancelAnimationFrame(this.frame)
+    this.frame = 0
+    window.removeEventListener('resize', this.schedule)
+    for (const root of this.scrollRoots) {
+      root.removeEventListener('scroll', this.schedule, true)
+    }
+    this.scrollRoots = []
+  }
+
+  // Throttle refreshes to one per animation frame
+  private schedule = () => {
+    if (this.frame) return
+    this.frame = requestAnimationFrame(() => {
+      this.frame = 0
+      this.refresh()
+    })
+  }
+}
@@ -0,0 +1,547 @@
+import { SELECTOR_CHAIN } from './dom'
+import { escapeAttribute } from './selector'
+import type { FlowOptions, OnboardingStep } from './flow'
+import type { PointerOptions } from './pointer'
+
+/**
+ * A tour definition, e.g. loaded from a JSON file.
+ */
+export interface TourDefinition {
+  /** Tour id, used as the flow id */
+  id?: string
+  /** Version of the tour content */
+  version?: number
+  steps: OnboardingStep[]
+  pointerOptions?: PointerOptions
+  flowOptions?: FlowOptions
+}
+
+/**
+ * Thrown when a tour definition is invalid. Lists every problem found.
+ */
+export class TourValidationError extends Error {
+  issues: string[]
+
+  constructor(issues: string[]) {
+    super(`[PointerJS] Invalid tour definition:\n- ${issues.join('\n- ')}`)
+    this.name = 'TourValidationError'
+    this.issues = issues
+  }
+}
+
+const TOUR_FIELDS = ['id', 'version', 'steps', 'pointerOptions', 'flowOptions']
+const STEP_FIELDS = [
+  'id',
+  'element',
+  'note',
+  'url',
+  'wait',
+  'missing',
+  'placement',
+  'pointerStyle',
+  'annotations',
+  'advanceOn',
+  'next',
+]
+const ANNOTATION_FIELDS = [
+  'id',
+  'element',
+  'note',
+  'placement',
+  'pointerStyle',
+  'color',
+  'connectTo',
+]
+const NOTE_FIELDS = ['title', 'body', 'html', 'image', 'buttons']
+const BUTTON_FIELDS = ['label', 'action', 'className']
+const NOTE_ACTIONS = ['next', 'back', 'skip', 'done']
+const MISSING_POLICIES = ['skip', 'stop', 'center', 'error']
+const TRIGGER_KINDS = [
+  'event',
+  'input',
+  'appear',
+  'disappear',
+  'url',
+  'custom',
+  'delay',
+]
+const PLACEMENTS = ['auto'].concat(
+  ...['top', 'right', 'bottom', 'left'].map((side) => [
+    side,
+    `${side}-start`,
+    `${side}-end`,
+  ]),
+)
+
+/**
+ * JSON Schema for tour definition files, for editor validation and autocompletion.
+ */
+export const tourSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'PointerJS tour',
+  type: 'object',
+  required: ['steps'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string' },
+    version: { type: 'number' },
+    pointerOptions: { type: 'object' },
+    flowOptions: { type: 'object' },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['element', 'note'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string' },
+          element: {
+            type: 'string',
+            description:
+              'CSS selector, chained with >>> to enter shadow roots and iframes',
+          },
+          note: {
+            oneOf: [
+              { type: 'string' },
+              {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                  title: { type: 'string' },
+                  body: { type: 'string' },
+                  html: { type: 'string' },
+                  image: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        required: ['src'],
+                        properties: {
+                          src: { type: 'string' },
+                          alt: { type: 'string' },
+                        },
+                      },
+                    ],
+                  },
+                  buttons: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      additionalProperties: false,
+                      properties: {
+                        label: { type: 'string' },
+                        action: { enum: NOTE_ACTIONS },
+                        className: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            ],
+          },
+          url: { type: 'string' },
+          wait: {
+            oneOf: [
+              { const: false },
+              {
+                type: 'object',
+                properties: {
+                  timeout: { type: 'number' },
+                  strategy: { enum: ['observe', 'poll'] },
+                  interval: { type: 'number' },
+                },
+              },
+            ],
+          },
+          missing: { enum: MISSING_POLICIES },
+          placement: { enum: PLACEMENTS },
+          pointerStyle: {
+            type: 'string',
+            description: 'Built-in or registered pointer shape name',
+          },
+          annotations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'element'],
+              additionalProperties: false,
+              properties: {
+                id: { type: 'string' },
+                element: { type: 'string' },
+                note: { $ref: '#/properties/steps/items/properties/note' },
+                placement: { enum: PLACEMENTS },
+                pointerStyle: { type: 'string' },
+                color: { type: 'string' },
+                connectTo: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'array', items: { type: 'string' } },
+                  ],
+                },
+              },
+            },
+          },
+          advanceOn: {
+            description:
+              'Event name, "manual", a trigger object or a list of them',
+            oneOf: [
+              { type: 'string' },
+              { $ref: '#/$defs/trigger' },
+              {
+                type: 'array',
+                items: {
+                  oneOf: [{ type: 'string' }, { $ref: '#/$defs/trigger' }],
+                },
+              },
+            ],
+          },
+          next: {
+            type: ['string', 'number'],
+            description: 'Id or index of the following step',
+          },
+        },
+      },
+    },
+  },
+  $defs: {
+    trigger: {
+      type: 'object',
+      minProperties: 1,
+      additionalProperties: false,
+      properties: {
+        event: { type: 'string' },
+        element: { type: 'string' },
+        input: { type: 'string', description: 'Regular expression' },
+        appear: { type: 'string' },
+        disappear: { type: 'string' },
+        url: { type: 'string' },
+        custom: { type: 'string' },
+        delay: { type: 'number' },
+      },
+    },
+  },
+} as const
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  issues: string[],
+) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) issues.push(`${path}: unknown field '${key}'`)
+  }
+}
+
+function isValidSelector(selector: string): boolean {
+  try {
+    const fragment = document.createDocumentFragment()
+    for (const part of selector.split(SELECTOR_CHAIN)) {
+      fragment.querySelector(part)
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+function validateAnnotation(
+  annotation: unknown,
+  path: string,
+  issues: string[],
+) {
+  if (!isObject(annotation)) {
+    issues.push(`${path}: must be an object`)
+    return
+  }
+  checkFields(annotation, ANNOTATION_FIELDS, path, issues)
+  if (typeof annotation.id !== 'string' || !annotation.id) {
+    issues.push(`${path}.id: must be a string`)
+  }
+  if (typeof annotation.element !== 'string' || !annotation.element) {
+    issues.push(`${path}.element: must be a CSS selector`)
+  } else if (!isValidSelector(annotation.element)) {
+    issues.push(`${path}.element: invalid CSS selector '${annotation.element}'`)
+  }
+  if (annotation.note !== undefined) {
+    validateNote(annotation.note, `${path}.note`, issues)
+  }
+}
+
+function validateTrigger(trigger: unknown, path: string, issues: string[]) {
+  if (typeof trigger === 'string') return
+  if (!isObject(trigger)) {
+    issues.push(`${path}: must be an event name or an object`)
+    return
+  }
+  const kinds = Object.keys(trigger).filter((key) =>
+    TRIGGER_KINDS.includes(key),
+  )
+  if (kinds.length !== 1) {
+    issues.push(`${path}: must have one of ${TRIGGER_KINDS.join(', ')}`)
+    return
+  }
+  const [kind] = kinds
+  checkFields(
+    trigger,
+    kind === 'event' || kind === 'input' ? [kind, 'element'] : [kind],
+    path,
+    issues,
+  )
+  if (kind === 'delay' && typeof trigger.delay !== 'number') {
+    issues.push(`${path}.delay: must be a number`)
+  } else if (kind !== 'delay' && typeof trigger[kind] !== 'string') {
+    issues.push(`${path}.${kind}: must be a string`)
+  } else if (kind === 'input') {
+    try {
+      new RegExp(String(trigger.input))
+    } catch {
+      issues.push(`${path}.input: must be a valid regular expression`)
+    }
+  }
+  if (trigger.element !== undefined && typeof trigger.element !== 'string') {
+    issues.push(`${path}.element: must be a CSS selector`)
+  }
+}
+
+function validateNote(note: unknown, path: string, issues: string[]) {
+  if (typeof note === 'string') return
+  if (!isObject(note)) {
+    issues.push(`${path}: must be a string or an object`)
+    return
+  }
+  checkFields(note, NOTE_FIELDS, path, issues)
+  for (const key of ['title', 'body', 'html'] as const) {
+    if (note[key] !== undefined && typeof note[key] !== 'string') {
+      issues.push(`${path}.${key}: must be a string`)
+    }
+  }
+  if (note.buttons === undefined) return
+  if (!Array.isArray(note.buttons)) {
+    issues.push(`${path}.buttons: must be an array`)
+    return
+  }
+  note.buttons.forEach((button: unknown, i) => {
+    const buttonPath = `${path}.buttons[${i}]`
+    if (!isObject(button)) {
+      issues.push(`${buttonPath}: must be an object`)
+      return
+    }
+    checkFields(button, BUTTON_FIELDS, buttonPath, issues)
+    if (
+      button.action !== undefined &&
+      !NOTE_ACTIONS.includes(button.action as string)
+    ) {
+      issues.push(
+        `${buttonPath}.action: must be one of ${NOTE_ACTIONS.join(', ')}`,
+      )
+    }
+  })
+}
+
+/**
+ * Check a tour definition and list the problems found.
+ * @param input Parsed tour definition
+ * @returns Problems found, empty when the tour is valid
+ */
+export function validateTour(input: unknown): string[] {
+  const issues: string[] = []
+  if (!isObject(input)) return ['tour: must be an object']
+  checkFields(input, TOUR_FIELDS, 'tour', issues)
+  if (input.id !== undefined && typeof input.id !== 'string') {
+    issues.push('tour.id: must be a string')
+  }
+  if (input.version !== undefined && typeof input.version !== 'number') {
+    issues.push('tour.version: must be a number')
+  }
+  for (const key of ['pointerOptions', 'flowOptions']) {
+    if (input[key] !== undefined && !isObject(input[key])) {
+      issues.push(`tour.${key}: must be an object`)
+    }
+  }
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    issues.push('tour.steps: must be a non-empty array')
+    return issues
+  }
+  const ids = new Set<string>()
+  input.steps.forEach((step: unknown, i) => {
+    const path = `steps[${i}]`
+    if (!isObject(step)) {
+      issues.push(`${path}: must be an object`)
+      return
+    }
+    checkFields(step, STEP_FIELDS, path, issues)
+    if (step.id !== undefined) {
+      if (typeof step.id !== 'string') {
+        issues.push(`${path}.id: must be a string`)
+      } else if (ids.has(step.id)) {
+        issues.push(`${path}.id: duplicate step id '${step.id}'`)
+      } else {
+        ids.add(step.id)
+      }
+    }
+    if (typeof step.element !== 'string' || !step.element) {
+      issues.push(`${path}.element: must be a CSS selector`)
+    } else if (!isValidSelector(step.element)) {
+      issues.push(`${path}.element: invalid CSS selector '${step.element}'`)
+    }
+    if (step.note === undefined) {
+      issues.push(`${path}.note: is required`)
+    } else {
+      validateNote(step.note, `${path}.note`, issues)
+    }
+    if (step.url !== undefined && typeof step.url !== 'string') {
+      issues.push(`${path}.url: must be a string`)
+    }
+    if (
+      step.wait !== undefined &&
+      step.wait !== false &&
+      !isObject(step.wait)
+    ) {
+      issues.push(`${path}.wait: must be false or an object`)
+    }
+    if (
+      step.missing !== undefined &&
+      !MISSING_POLICIES.includes(step.missing as string)
+    ) {
+      issues.push(
+        `${path}.missing: must be one of ${MISSING_POLICIES.join(', ')}`,
+      )
+    }
+    if (
+      step.placement !== undefined &&
+      !PLACEMENTS.includes(step.placement as string)
+    ) {
+      issues.push(`${path}.placement: must be one of ${PLACEMENTS.join(', ')}`)
+    }
+    if (
+      step.pointerStyle !== undefined &&
+      typeof step.pointerStyle !== 'string'
+    ) {
+      issues.push(`${path}.pointerStyle: must be a shape name`)
+    }
+    if (step.annotations !== undefined) {
+      if (Array.isArray(step.annotations)) {
+        step.annotations.forEach((annotation: unknown, j) =>
+          validateAnnotation(annotation, `${path}.annotations[${j}]`, issues),
+        )
+      } else {
+        issues.push(`${path}.annotations: must be an array`)
+      }
+    }
+    if (Array.isArray(step.advanceOn)) {
+      step.advanceOn.forEach((trigger: unknown, j) =>
+        validateTrigger(trigger, `${path}.advanceOn[${j}]`, issues),
+      )
+    } else if (step.advanceOn !== undefined) {
+      validateTrigger(step.advanceOn, `${path}.advanceOn`, issues)
+    }
+    if (
+      step.next !== undefined &&
+      typeof step.next !== 'string' &&
+      typeof step.next !== 'number'
+    ) {
+      issues.push(`${path}.next: must be a step id or index`)
+    }
+  })
+  // Check references once all ids are known
+  input.steps.forEach((step: unknown, i) => {
+    if (
+      isObject(step) &&
+      typeof step.next === 'string' &&
+      !ids.has(step.next)
+    ) {
+      issues.push(`steps[${i}].next: unknown step id '${step.next}'`)
+    }
+  })
+  return issues
+}
+
+/**
+ * Parse and validate a tour definition.
+ * @param input JSON string or parsed object
+ * @returns The validated tour definition
+ * @throws TourValidationError if the definition is invalid
+ */
+export function parseTour(input: unknown): TourDefinition {
+  let tour = input
+  if (typeof input === 'string') {
+    try {
+      tour = JSON.parse(input)
+    } catch (error) {
+      throw new TourValidationError([`tour: invalid JSON (${error})`])
+    }
+  }
+  const issues = validateTour(tour)
+  if (issues.length > 0) throw new TourValidationError(issues)
+  return tour as TourDefinition
+}
+
+/**
+ * Build steps from elements marked with data attributes:
+ * `data-pointer-step` (optional step id), `data-pointer-note`,
+ * `data-pointer-order` and `data-pointer-tour`.
+ * @param tour Only include elements of this tour (default: all)
+ * @param root Element or document to search in (default: document)
+ * @returns Steps sorted by `data-pointer-order`, then document order
+ * @throws TourValidationError if several elements use the same step id
+ */
+export function stepsFromDOM(
+  tour?: string,
+  root: ParentNode = document,
+): OnboardingStep[] {
+  const marked = Array.from(
+    root.querySelectorAll<HTMLElement>('[data-pointer-step]'),
+  )
+  // Ids select elements, so they must be unique across tours
+  const ids = new Set<string>()
+  const issues: string[] = []
+  for (const el of marked) {
+    const id = el.dataset.pointerStep
+    if (!id) continue
+    if (ids.has(id)) {
+      issues.push(
+        `[data-pointer-step="${escapeAttribute(id)}"]: duplicate step id '${id}'`,
+      )
+    }
+    ids.add(id)
+  }
+  if (issues.length > 0) throw new TourValidationError(issues)
+
+  let generated = 0
+  const steps: Array<{ step: OnboardingStep; order: number }> = []
+  for (const el of marked) {
+    if (tour !== undefined && el.dataset.pointerTour !== tour) continue
+    const note = el.dataset.pointerNote
+    if (!note) {
+      console.warn('[PointerJS] Skipping step without data-pointer-note.', el)
+      continue
+    }
+    // Give unnamed steps an unused value so they can be selected
+    if (!el.dataset.pointerStep) {
+      let id = `step-${++generated}`
+      while (ids.has(id)) id = `step-${++generated}`
+      ids.add(id)
+      el.dataset.pointerStep = id
+    }
+    const id = el.dataset.pointerStep
+    const order = Number.parseFloat(el.dataset.pointerOrder ?? '')
+    steps.push({
+      step: {
+        id,
+        element: el.id
+          ? `[id="${escapeAttribute(el.id)}"]`
+          : `[data-pointer-step="${escapeAttribute(id)}"]`,
+        note,
+      },
+      order: Number.isNaN(order) ? Infinity : order,
+    })
+  }
+  // Array#sort is stable, so equal orders keep document order
+  return steps.sort((a, b) => a.order - b.order).map(({ step }) => step)
+}
@@ -0,0 +1,160 @@
+import { getViewportRect } from './dom'
+
+/**
+ * Options for the spotlight overlay that dims the page around the target.
+ */
+export interface OverlayOptions {
+  /** Space between the target and the cutout edge in px (default: 8) */
+  padding?: number
+  /** Cutout corner radius in px (default: 8) */
+  radius?: number
+  /** Backdrop opacity from 0 to 1 (default: 0.5) */
+  opacity?: number
+  /** Backdrop color (default: #000) */
+  color?: string
+  /** Block clicks outside the cutout (default: false) */
+  blockClicks?: boolean
+}
+
+/**
+ * A rectangle in viewport coordinates.
+ */
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/**
+ * Interpolate between two rects.
+ * @param from Start rect
+ * @param to End rect
+ * @param t Progress from 0 to 1
+ */
+export function lerpRect(from: Rect, to: Rect, t: number): Rect {
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    width: from.width + (to.width - from.width) * t,
+    height: from.height + (to.height - from.height) * t,
+  }
+}
+
+/**
+ * Build an SVG path covering the viewport with a rounded hole for the cutout.
+ * Used with `fill-rule="evenodd"` so the hole stays unpainted and clickable.
+ */
+function cutoutPath(
+  width: number,
+  height: number,
+  rect: Rect | null,
+  radius: number,
+): string {
+  const outer = `M0 0H${width}V${height}H0Z`
+  if (!rect) return outer
+  const { x, y, width: w, height: h } = rect
+  const r = Math.max(0, Math.min(radius, w / 2, h / 2))
+  return (
+    `${outer}M${x + r} ${y}H${x + w - r}` +
+    `A${r} ${r} 0 0 1 ${x + w} ${y + r}V${y + h - r}` +
+    `A${r} ${r} 0 0 1 ${x + w - r} ${y + h}H${x + r}` +
+    `A${r} ${r} 0 0 1 ${x} ${y + h - r}V${y + r}` +
+    `A${r} ${r} 0 0 1 ${x + r} ${y}Z`
+  )
+}
+
+/**
+ * Dimmed backdrop with an animated cutout around the current target.
+ */
+export class Overlay {
+  private svg: SVGSVGElement
+  private path: SVGPathElement
+  private options: Required<OverlayOptions>
+  private rect: Rect | null = null
+
+  /**
+   * Create a new Overlay.
+   * @param root Shadow root to render into
+   * @param options OverlayOptions for customizing the backdrop
+   */
+  constructor(root: ShadowRoot, options: OverlayOptions = {}) {
+    this.options = {
+      padding: options.padding ?? 8,
+      radius: options.radius ?? 8,
+      opacity: options.opacity ?? 0.5,
+      color: options.color || '#000',
+      blockClicks: !!options.blockClicks,
+    }
+    this.svg = document.createElementNS(SVG_NS, 'svg')
+    this.svg.setAttribute('class', 'overlay')
+    this.svg.setAttribute('part', 'overlay')
+    this.svg.setAttribute('aria-hidden', 'true')
+    this.svg.style.display = 'none'
+    this.path = document.createElementNS(SVG_NS, 'path')
+    this.path.setAttribute('fill-rule', 'evenodd')
+    this.path.setAttribute('fill', this.options.color)
+    this.path.setAttribute('fill-opacity', String(this.options.opacity))
+    // Only the painted backdrop captures clicks, the cutout lets them through
+    this.path.style.pointerEvents = this.options.blockClicks ? 'auto' : 'none'
+    this.svg.append(this.path)
+    root.append(this.svg)
+  }
+
+  /**
+   * Get the padded cutout rect for an element.
+   * @param el Target element
+   */
+  getTargetRect(el: HTMLElement): Rect {
+    const rect = getViewportRect(el)
+    const { padding } = this.options
+    return {
+      x: rect.left - padding,
+      y: rect.top - padding,
+      width: rect.width + padding * 2,
+      height: rect.height + padding * 2,
+    }
+  }
+
+  /**
+   * The rect of the cutout currently drawn, if any.
+   */
+  get currentRect(): Rect | null {
+    return this.rect
+  }
+
+  /**
+   * Draw the backdrop with a cutout, or fully dimmed when rect is null.
+   * @param rect Cutout rect in viewport coordinates
+   */
+  setRect(rect: Rect | null): void {
+    this.rect = rect
+    const width = window.innerWidth
+    const height = window.innerHeight
+    this.svg.setAttribute('width', String(width))
+    this.svg.setAttribute('height', String(height))
+    this.svg.setAttribute('viewBox', `0 0 ${width} ${height}`)
+    this.path.setAttribute(
+      'd',
+      cutoutPath(width, height, rect, this.options.radius),
+    )
+    this.svg.style.display = 'block'
+  }
+
+  /**
+   * Hide the backdrop.
+   */
+  hide(): void {
+    this.rect = null
+    this.svg.style.display = 'none'
+  }
+
+  /**
+   * Remove the backdrop.
+   */
+  destroy(): void {
+    this.svg.remove()
+  }
+}
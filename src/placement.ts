@@ -0,0 +1,175 @@
+import type { Point } from './animation'
+import type { Rect } from './overlay'
+
+/**
+ * Side of the target the pointer and note are placed on.
+ */
+export type Side = 'top' | 'right' | 'bottom' | 'left'
+
+/**
+ * Alignment along the target's edge.
+ */
+export type Alignment = 'start' | 'center' | 'end'
+
+/**
+ * Where the pointer and note go relative to the target. "auto" picks the side with the most space.
+ */
+export type Placement = Side | `${Side}-start` | `${Side}-end` | 'auto'
+
+/**
+ * Width and height of a box.
+ */
+export interface Size {
+  width: number
+  height: number
+}
+
+/**
+ * Everything placement depends on, in viewport coordinates.
+ */
+export interface PlacementInput {
+  target: Rect
+  note: Size
+  viewport: Size
+  pointerSize: number
+  /** Preferred placement (default: "bottom-end") */
+  placement?: Placement
+  /** Distance kept from the target and the viewport edges (default: 8) */
+  margin?: number
+  /** Right-to-left layout: start and end alignments and the pointer are mirrored (default: false) */
+  rtl?: boolean
+}
+
+/**
+ * Computed positions of the pointer and note, as top-left corners.
+ */
+export interface PlacementResult {
+  /** Side actually used, after flipping */
+  side: Side
+  align: Alignment
+  pointer: Point
+  note: Point
+  /** Mirror the pointer horizontally so it faces the target */
+  flipX: boolean
+  /** Mirror the pointer vertically so it faces the target */
+  flipY: boolean
+}
+
+const OPPOSITE: Record<Side, Side> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+}
+const AUTO_ORDER: Side[] = ['bottom', 'top', 'right', 'left']
+const ALIGN_FACTOR: Record<Alignment, number> = {
+  start: 0,
+  center: 0.5,
+  end: 1,
+}
+// Space between the pointer and the note
+const NOTE_GAP = 4
+
+function parsePlacement(placement: Placement): {
+  side: Side | 'auto'
+  align: Alignment
+} {
+  const [side, align] = placement.split('-') as [Side | 'auto', Alignment?]
+  return { side, align: align ?? 'center' }
+}
+
+function isVertical(side: Side) {
+  return side === 'top' || side === 'bottom'
+}
+
+// Free space between the target and the viewport edge on a side
+function spaceOn(side: Side, target: Rect, viewport: Size): number {
+  switch (side) {
+    case 'top':
+      return target.y
+    case 'bottom':
+      return viewport.height - target.y - target.height
+    case 'left':
+      return target.x
+    case 'right':
+      return viewport.width - target.x - target.width
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  // Stick to the start edge when the box is larger than the available space
+  return Math.max(min, Math.min(value, max))
+}
+
+/**
+ * Compute where the pointer and note go for a target, flipping to the opposite
+ * side when the preferred one lacks space and shifting both to stay on screen.
+ * @param input Target and note sizes, viewport size and preferences
+ * @returns Positions of the pointer and note
+ */
+export function computePlacement(input: PlacementInput): PlacementResult {
+  const { target, note, viewport, pointerSize: size } = input
+  const margin = input.margin ?? 8
+  const preferred = parsePlacement(input.placement ?? 'bottom-end')
+  const need = (side: Side) =>
+    margin +
+    size +
+    NOTE_GAP +
+    (isVertical(side) ? note.height : note.width) +
+    margin
+  const fits = (side: Side) => spaceOn(side, target, viewport) >= need(side)
+  const room = (side: Side) => spaceOn(side, target, viewport) - need(side)
+
+  let side: Side
+  if (preferred.side === 'auto') {
+    side =
+      AUTO_ORDER.find(fits) ??
+      AUTO_ORDER.reduce((best, s) => (room(s) > room(best) ? s : best))
+  } else if (fits(preferred.side)) {
+    side = preferred.side
+  } else {
+    const opposite = OPPOSITE[preferred.side]
+    side =
+      fits(opposite) || room(opposite) > room(preferred.side)
+        ? opposite
+        : preferred.side
+  }
+
+  const { align } = preferred
+  // Along a horizontal edge, start is on the right in RTL
+  const rtl = !!input.rtl && isVertical(side)
+  const f = rtl ? 1 - ALIGN_FACTOR[align] : ALIGN_FACTOR[align]
+  const { x, y, width, height } = target
+  let pointer: Point
+  let notePos: Point
+  if (isVertical(side)) {
+    const py = side === 'bottom' ? y + height + margin : y - margin - size
+    pointer = { x: x + (width - size) * f, y: py }
+    notePos = {
+      x: x + (width - note.width) * f,
+      y: side === 'bottom' ? py + size + NOTE_GAP : py - NOTE_GAP - note.height,
+    }
+  } else {
+    const px = side === 'right' ? x + width + margin : x - margin - size
+    pointer = { x: px, y: y + (height - size) * f }
+    notePos = {
+      x: side === 'right' ? px + size + NOTE_GAP : px - NOTE_GAP - note.width,
+      y: y + (height - note.height) * f,
+    }
+  }
+
+  return {
+    side,
+    align,
+    pointer: {
+      x: clamp(pointer.x, margin, viewport.width - size - margin),
+      y: clamp(pointer.y, margin, viewport.height - size - margin),
+    },
+    note: {
+      x: clamp(notePos.x, margin, viewport.width - note.width - margin),
+      y: clamp(notePos.y, margin, viewport.height - note.height - margin),
+    },
+    flipX: side === 'left' || rtl,
+    flipY: side === 'top',
+  }
+}
@@ -1,3 +1,61 @@
+import {
+  pathPoint,
+  prefersReducedMotion,
+  resolveEasing,
+  type Easing,
+  type PathMode,
+  type Point,
+} from './animation'
+import { Annotations } from './annotations'
+import {
+  renderNote,
+  renderProgress,
+  sanitizeHTML,
+  type NoteAction,
+  type NoteContent,
+  type NoteProgress,
+  type Sanitizer,
+} from './content'
+import { getScrollRoots, getViewportRect, scrollIntoViewIfNeeded } from './dom'
+import { assertBrowser } from './env'
+import { Emitter } from './events'
+import { resolveMessages, type Messages } from './i18n'
+import { createLayer, LayoutWatcher } from './layer'
+import { lerpRect, Overlay, type OverlayOptions, type Rect } from './overlay'
+import {
+  computePlacement,
+  type Placement,
+  type PlacementResult,
+} from './placement'
+import {
+  orientShape,
+  pointerStyles,
+  renderPointerShape,
+  resolvePointerShape,
+  type PointerShape,
+  type PointerStyle,
+} from './shapes'
+import { noteStyles, type Theme } from './theme'
+import { waitForScrollEnd } from './wait'
+
+/**
+ * How a new movement interacts with one in progress: "latest" cancels it,
+ * "queue" waits for it to finish.
+ */
+export type MovePolicy = 'latest' | 'queue'
+
+/**
+ * Options for a single pointer movement.
+ */
+export interface MoveOptions {
+  /** Cancels the movement; its Promise then resolves to false */
+  signal?: AbortSignal
+  /** Placement for this movement (default: PointerOptions.placement) */
+  placement?: Placement
+  /** Pointer shape for this movement (default: PointerOptions.pointerStyle) */
+  pointerStyle?: PointerStyle | PointerShape
+}
+
 /**
  * Options for customizing the pointer appearance.
  */
@@ -10,10 +68,72 @@ export interface PointerOptions {
   fontSize?: string
   /** Animation speed in ms (default: 400) */
   animationSpeed?: number
+  /** Easing preset or function (default: "ease") */
+  easing?: Easing
+  /** Path the pointer follows between targets (default: "straight") */
+  path?: PathMode
+  /** Play a click ripple when the pointer arrives (default: false) */
+  clickEffect?: boolean
+  /** Whether a new movement cancels or waits for the current one (default: "latest") */
+  movePolicy?: MovePolicy
+  /** Where the pointer and note go relative to the target (default: "bottom-end") */
+  placement?: Placement
   /** Pointer size in px (default: 32) */
   pointerSize?: number
-  /** Pointer style ("arrow" | "hand" | "circle", default: "arrow") */
-  pointerStyle?: 'arrow' | 'hand' | 'circle'
+  /** Built-in or registered shape name, or a shape definition (default: "arrow") */
+  pointerStyle?: PointerStyle | PointerShape
+  /** Rotate the pointer to face the target instead of mirroring it (default: false) */
+  rotate?: boolean
+  /** Keep Tab focus inside the note while it is shown (default: false) */
+  focusTrap?: boolean
+  /** Language of built-in strings, see registerLocale (default: English) */
+  locale?: string
+  /** Built-in strings overriding the locale */
+  messages?: Partial<Messages>
+  /** Text direction; "auto" reads the target's `dir` (default: "auto") */
+  dir?: 'ltr' | 'rtl' | 'auto'
+  /** Dim the page and cut out the target (default: false) */
+  overlay?: boolean | OverlayOptions
+  /** Sanitizer for HTML in rich notes, or false to trust it (default: built-in) */
+  sanitize?: Sanitizer | false
+  /** Note color preset (default: notes use the pointer color) */
+  theme?: Theme
+  /** Extra CSS applied inside the shadow root, after the built-in styles */
+  stylesheet?: string | CSSStyleSheet
+}
+
+const FOCUSABLE_SELECTOR =
+  'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+let noteCount = 0
+
+function resolveOptions(options: PointerOptions): PointerOptions {
+  return {
+    ...options,
+    color: options.color || '#8BD3E6',
+    fontFamily: options.fontFamily || 'inherit',
+    fontSize: options.fontSize || '14px',
+    animationSpeed: options.animationSpeed ?? 400,
+    easing: options.easing ?? 'ease',
+    path: options.path ?? 'straight',
+    clickEffect: options.clickEffect ?? false,
+    movePolicy: options.movePolicy ?? 'latest',
+    placement: options.placement ?? 'bottom-end',
+    pointerSize: options.pointerSize ?? 32,
+    pointerStyle: options.pointerStyle || 'arrow',
+    rotate: options.rotate ?? false,
+    focusTrap: options.focusTrap ?? false,
+    dir: options.dir ?? 'auto',
+    overlay: options.overlay ?? false,
+    sanitize: options.sanitize ?? sanitizeHTML,
+  }
+}
+
+/**
+ * Events emitted by a Pointer.
+ */
+export type PointerEvents = {
+  /** A note button with a built-in action was clicked */
+  action: (action: NoteAction) => void
 }
 
 /**
@@ -24,214 +144,380 @@ export class Pointer {
   private pointerEl: HTMLElement
   private noteEl: HTMLElement
   private container: HTMLElement
+  private styleEl: HTMLStyleElement
+  private liveEl: HTMLElement
+  private messages!: Messages
+  private descriptionEl: HTMLElement
+  private extraStyleEl: HTMLStyleElement
   private currentX: number
   private currentY: number
   private animating = false
+  // Identifies the latest animation, so that stale frames leave its state alone
+  private animationId = 0
   private options: PointerOptions
+  private overlay: Overlay | null = null
+  private target: HTMLElement | null = null
+  private note: NoteContent | undefined
+  private shapeEl: HTMLElement
+  private shape!: PointerShape
+  private shapeStyle: PointerStyle | PointerShape | undefined
+  private aim: Point | null = null
+  private placement: Placement | undefined
+  private renderedNote: NoteContent | undefined
+  private progressEl: HTMLElement | null = null
+  private events = new Emitter<PointerEvents>()
+  private layout = new LayoutWatcher(() => this.refresh())
+  private annotationLayer: Annotations | null = null
+  private moves = new Set<AbortController>()
+  private lastMove: Promise<boolean> = Promise.resolve(true)
 
   /**
    * Create a new Pointer instance.
    * @param options PointerOptions for customizing appearance
    */
   constructor(options: PointerOptions = {}) {
-    this.options = {
-      color: options.color || '#8BD3E6',
-      fontFamily: options.fontFamily || 'inherit',
-      fontSize: options.fontSize || '14px',
-      animationSpeed: options.animationSpeed ?? 400,
-      pointerSize: options.pointerSize ?? 32,
-      pointerStyle: options.pointerStyle || 'arrow',
-    }
-    // Create a container and attach shadow DOM
-    this.container = document.createElement('div')
-    this.container.style.position = 'fixed'
-    this.container.style.top = '0'
-    this.container.style.left = '0'
-    this.container.style.width = '100vw'
-    this.container.style.height = '100vh'
-    this.container.style.pointerEvents = 'none'
-    this.container.style.zIndex = '999999'
-    document.body.append(this.container)
-    this.shadowRoot = this.container.attachShadow({ mode: 'open' })
-
-    // Inject styles
-    const style = document.createElement('style')
-    style.textContent = `
-      .pointer {
-        width: ${this.options.pointerSize ?? 32}px;
-        height: ${this.options.pointerSize ?? 32}px;
-        background: transparent;
-        position: absolute;
-        left: 0;
-        top: 0;
-        z-index: 2;
-        pointer-events: none;
-      }
-      .pointer-triangle {
-        position: absolute;
-        left: 0;
-        top: 8px;
-        width: 0;
-        height: 0;
-        border-top: 8px solid transparent;
-        border-bottom: 8px solid transparent;
-        border-right: 16px solid ${this.options.color};
-        border-radius: 8px;
-        z-index: 1;
-      }
-      .note {
-        position: absolute;
-        /* Position bottom right of pointer with offset */
-        left: unset;
-        top: unset;
-        background: ${this.options.color};
-        color: #fff;
-        padding: 12px 24px;
-        border-radius: 16px;
-        font-size: ${this.options.fontSize};
-        box-shadow: 0 2px 16px 0 ${this.options.color}22;
-        white-space: pre-line;
-        pointer-events: auto;
-        z-index: 10;
-        font-family: ${this.options.fontFamily};
-        transition: background 0.2s, color 0.2s, font-size 0.2s, font-family 0.2s;
-      }
-    `
-    this.shadowRoot.append(style)
+    assertBrowser('Pointer')
+    this.options = resolveOptions(options)
+    const layer = createLayer('pointerjs', 999999)
+    this.container = layer.container
+    this.shadowRoot = layer.shadowRoot
+
+    this.styleEl = document.createElement('style')
+    // User styles come after ours so they win at equal specificity
+    this.extraStyleEl = document.createElement('style')
+    this.shadowRoot.append(this.styleEl, this.extraStyleEl)
 
     // Pointer element (SVG icon)
     this.pointerEl = document.createElement('div')
     this.pointerEl.className = 'pointer'
-    const size = this.options.pointerSize ?? 32
-    let pointerSVG = ''
-    if (this.options.pointerStyle === 'hand') {
-      pointerSVG = `
-        <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 800 800" fill="none">
-            <path fill="${this.options.color}" d="M587.5 262.5a86.965 86.965 0 0 0-45.756 12.953 87.449 87.449 0 0 0-49.633-45.292A87.435 87.435 0 0 0 425 233.459V112.5a87.502 87.502 0 0 0-149.372-61.872A87.502 87.502 0 0 0 250 112.5v285.656l-21.872-37.884a87.5 87.5 0 0 0-152.094 86.55C177.428 660.622 244.978 750 400 750a275.311 275.311 0 0 0 275-275V350a87.602 87.602 0 0 0-25.656-61.844A87.602 87.602 0 0 0 587.5 262.5Z"/>
-        </svg>
-      `
-    } else if (this.options.pointerStyle === 'circle') {
-      pointerSVG = `
-        <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 32 32" fill="none">
-          <circle cx="16" cy="16" r="12" fill="${this.options.color}" />
-        </svg>
-      `
-    } else {
-      // Default: arrow
-      pointerSVG = `
-        <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" fill="none" viewBox="0 0 24 24">
-          <path fill="${this.options.color}" d="M19.503 9.97c1.204.489 1.112 2.224-.137 2.583l-6.306 1.813-2.88 5.895c-.57 1.168-2.295.957-2.568-.314L4.677 6.257A1.369 1.369 0 0 1 6.53 4.7L19.503 9.97Z" clip-rule="evenodd"/>
-        </svg>
-      `
-    }
-    this.pointerEl.innerHTML = pointerSVG
+    this.pointerEl.setAttribute('part', 'pointer')
+    this.shapeEl = document.createElement('span')
+    this.shapeEl.className = 'pointer-shape'
+    this.pointerEl.append(this.shapeEl)
     this.shadowRoot.append(this.pointerEl)
 
     // Note element
     this.noteEl = document.createElement('div')
     this.noteEl.className = 'note'
+    this.noteEl.setAttribute('part', 'note')
     this.noteEl.style.display = 'none'
-    // Accessibility: ARIA attributes
-    this.noteEl.setAttribute('role', 'status')
-    this.noteEl.setAttribute('aria-live', 'polite')
+    // Accessibility: the note is a non-modal dialog unless focus is trapped in it
+    this.noteEl.setAttribute('role', 'dialog')
     this.noteEl.setAttribute('tabindex', '0')
+    this.noteEl.addEventListener('keydown', this.trapFocus)
     this.shadowRoot.append(this.noteEl)
 
+    // Announcements for screen readers, e.g. step changes
+    this.liveEl = document.createElement('div')
+    this.liveEl.className = 'live-region'
+    this.liveEl.setAttribute('role', 'status')
+    this.liveEl.setAttribute('aria-live', 'polite')
+    this.liveEl.setAttribute('aria-atomic', 'true')
+    this.shadowRoot.append(this.liveEl)
+
+    // IDs cannot be referenced across the shadow boundary, so the target is
+    // described by a hidden copy of the note text in the light DOM
+    this.descriptionEl = document.createElement('div')
+    this.descriptionEl.id = `pointerjs-note-${++noteCount}`
+    this.descriptionEl.hidden = true
+    this.container.append(this.descriptionEl)
+
+    this.render()
+
     // Start pointer at center of screen
     this.currentX = window.innerWidth / 2
     this.currentY = window.innerHeight / 2
     this.pointerEl.style.left = `${this.currentX}px`
     this.pointerEl.style.top = `${this.currentY}px`
+    this.orientPointer(this.currentX, this.currentY)
+  }
+
+  /**
+   * Update options at runtime, e.g. to switch themes or colors.
+   * @param options Options to change; omitted options keep their current value
+   */
+  setOptions(options: PointerOptions): void {
+    if ('overlay' in options && options.overlay !== this.options.overlay) {
+      this.overlay?.destroy()
+      this.overlay = null
+    }
+    this.options = resolveOptions({ ...this.options, ...options })
+    this.render()
+    this.refresh()
+  }
+
+  // Apply the options to the styles, the pointer icon and the overlay
+  private render() {
+    this.messages = resolveMessages(this.options.locale, this.options.messages)
+    const size = this.options.pointerSize ?? 32
+    this.styleEl.textContent = `
+      .overlay {
+        position: absolute;
+        left: 0;
+        top: 0;
+        z-index: 1;
+      }
+      ${pointerStyles(size)}
+      .pointer-ripple {
+        position: absolute;
+        width: 24px;
+        height: 24px;
+        margin: -12px 0 0 -12px;
+        border: 2px solid var(--pointerjs-color);
+        border-radius: 50%;
+        box-sizing: border-box;
+        animation: pointer-ripple 0.5s ease-out forwards;
+      }
+      @keyframes pointer-ripple {
+        from { transform: scale(0.2); opacity: 1; }
+        to { transform: scale(1.5); opacity: 0; }
+      }
+      ${noteStyles(this.options)}
+      @media (prefers-reduced-motion: reduce) {
+        .note { transition: none; }
+      }
+      .live-region {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip-path: inset(50%);
+        white-space: nowrap;
+      }
+    `
+    if (this.options.focusTrap) this.noteEl.setAttribute('aria-modal', 'true')
+    else this.noteEl.removeAttribute('aria-modal')
+
+    const { stylesheet } = this.options
+    this.extraStyleEl.textContent =
+      typeof stylesheet === 'string' ? stylesheet : ''
+    if ('adoptedStyleSheets' in this.shadowRoot) {
+      this.shadowRoot.adoptedStyleSheets =
+        stylesheet && typeof stylesheet !== 'string' ? [stylesheet] : []
+    }
+
+    this.setShape(this.options.pointerStyle!, true)
+
+    if (this.options.overlay && !this.overlay) {
+      this.overlay = new Overlay(
+        this.shadowRoot,
+        this.options.overlay === true ? {} : this.options.overlay,
+      )
+    }
   }
 
   /**
    * Move the pointer to a target element and optionally show a note.
+   * Scrolls the element into view first, including inside scrollable containers
+   * and iframes, and waits for scrolling to end.
    * @param target HTMLElement to point to
-   * @param note Optional note to display
+   * @param note Optional note to display: text, a rich note, a DOM node or a render function
    * @param isFirstStep Flag indicating if this is the first step of the animation
+   * @param options Movement options, e.g. an AbortSignal
+   * @returns Promise that resolves to true once the pointer has arrived, or false if cancelled
    */
-  moveToElement(target: HTMLElement, note?: string, isFirstStep?: boolean) {
-    const rect = target.getBoundingClientRect()
-    const viewportWidth = window.innerWidth
-    const viewportHeight = window.innerHeight
-    if (rect.top < 0) {
-      window.scrollTo({
-        top: window.scrollY + rect.top - 100,
-        behavior: 'smooth',
-      })
-    } else if (rect.bottom > viewportHeight) {
-      window.scrollTo({
-        top: window.scrollY + rect.bottom - viewportHeight + 100,
-        behavior: 'smooth',
-      })
-    }
-    setTimeout(() => {
-      const updatedRect = target.getBoundingClientRect()
-      const pointerSize = this.options.pointerSize ?? 32
-      const margin = 8
-      // Estimate note height for flip logic
-      let noteHeight = 48
-      if (this.noteEl && note) {
-        this.noteEl.textContent = note
+  moveToElement(
+    target: HTMLElement,
+    note?: NoteContent,
+    isFirstStep?: boolean,
+    options: MoveOptions = {},
+  ): Promise<boolean> {
+    return this.schedule(async (signal) => {
+      this.track(target, note)
+      this.placement = options.placement
+      this.setShape(options.pointerStyle ?? this.options.pointerStyle!)
+      const behavior = prefersReducedMotion() ? 'auto' : 'smooth'
+      if (scrollIntoViewIfNeeded(target, behavior)) {
+        await waitForScrollEnd(target, signal)
+        if (signal.aborted) return false
+      }
+      // Measure the note offscreen so placement knows its size
+      if (note) {
+        this.setNote(note)
         this.noteEl.style.display = 'block'
         this.noteEl.style.visibility = 'hidden'
         this.noteEl.style.opacity = '0'
         this.noteEl.style.left = '-9999px'
         this.noteEl.style.top = '-9999px'
-        noteHeight = this.noteEl.offsetHeight || 48
       }
-      // Determine if we need to flip (note above)
-      const offsetY = pointerSize + 8
-      let flip = false
-      if (updatedRect.bottom + offsetY + noteHeight > viewportHeight - margin) {
-        flip = true
-      }
-      // Pointer always points to the element's corner
-      let pointerX = updatedRect.right - pointerSize
-      let pointerY = flip
-        ? updatedRect.top - pointerSize - margin
-        : updatedRect.bottom + margin
-      pointerX = Math.min(pointerX, viewportWidth - pointerSize - margin)
-      pointerY = Math.min(pointerY, viewportHeight - pointerSize - margin)
-      pointerX = Math.max(margin, pointerX)
-      pointerY = Math.max(margin, pointerY)
-      this.animateTo(pointerX, pointerY, note, isFirstStep, flip)
-    }, 300)
+      const layout = this.getLayout(target, !!note)
+      return this.animateTo(
+        layout.pointer.x,
+        layout.pointer.y,
+        signal,
+        note,
+        isFirstStep,
+        layout,
+        target,
+      )
+    }, options.signal)
+  }
+
+  /**
+   * Move the pointer to a point in the viewport, hiding the note.
+   * @param x X coordinate
+   * @param y Y coordinate
+   * @param options Movement options, e.g. an AbortSignal
+   * @returns Promise that resolves to true once the pointer has arrived, or false if cancelled
+   */
+  moveTo(x: number, y: number, options: MoveOptions = {}): Promise<boolean> {
+    return this.schedule((signal) => {
+      this.untrack()
+      this.setShape(options.pointerStyle ?? this.options.pointerStyle!)
+      return this.animateTo(x, y, signal)
+    }, options.signal)
+  }
+
+  /**
+   * Cancel the movement in progress and any queued ones.
+   */
+  cancel(): void {
+    for (const controller of this.moves) controller.abort()
+    this.moves.clear()
+    this.animating = false
+  }
+
+  // Run a movement now, or after the queued ones with the "queue" policy
+  private schedule(
+    task: (signal: AbortSignal) => Promise<boolean>,
+    signal?: AbortSignal,
+    preempt = true,
+  ): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false)
+    const queue = this.options.movePolicy === 'queue'
+    if (!queue && preempt) this.cancel()
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort, { once: true })
+    const run = () =>
+      controller.signal.aborted
+        ? Promise.resolve(false)
+        : task(controller.signal)
+    const result =
+      // A failed movement must not hold up the ones queued after it
+      (
+        queue && this.moves.size > 0 ? this.lastMove.then(run, run) : run()
+      ).finally(() => {
+        this.moves.delete(controller)
+        signal?.removeEventListener('abort', abort)
+      })
+    this.moves.add(controller)
+    this.lastMove = result
+    return result
+  }
+
+  /**
+   * Extra pointers and notes shown along with this pointer, in its container
+   * and above its overlay. Connect them to the pointer's target with
+   * `connectTo: 'pointer'`. Created on first use, with the pointer's options.
+   */
+  get annotations(): Annotations {
+    this.annotationLayer ||= new Annotations(this.options, {
+      root: this.shadowRoot,
+      target: () => this.target,
+    })
+    return this.annotationLayer
+  }
+
+  /**
+   * Re-run placement for the current target, e.g. after a layout change.
+   * Called automatically when the target resizes or the page scrolls or resizes.
+   */
+  refresh(): void {
+    const target = this.target
+    if (!target || this.animating) return
+    if (!target.isConnected) {
+      this.untrack()
+      return
+    }
+    const noteVisible = !!this.note && this.noteEl.style.display !== 'none'
+    const layout = this.getLayout(target, noteVisible)
+    const { x, y } = layout.pointer
+    this.currentX = x
+    this.currentY = y
+    this.pointerEl.style.left = `${x}px`
+    this.pointerEl.style.top = `${y}px`
+    this.layoutNote(x, y, layout, noteVisible)
+    this.overlay?.setRect(this.overlay.getTargetRect(target))
+  }
+
+  // Place the pointer and note around the target; without a note, keep room for one line
+  private getLayout(target: HTMLElement, hasNote: boolean): PlacementResult {
+    const rect = getViewportRect(target)
+    this.aim = {
+      x: (rect.left + rect.right) / 2,
+      y: (rect.top + rect.bottom) / 2,
+    }
+    return computePlacement({
+      target: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+      },
+      note: hasNote
+        ? {
+            width: this.noteEl.offsetWidth,
+            height: this.noteEl.offsetHeight || 48,
+          }
+        : { width: 0, height: 48 },
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      pointerSize: this.options.pointerSize ?? 32,
+      placement: this.placement ?? this.options.placement,
+      rtl:
+        this.options.dir === 'auto'
+          ? target.closest('[dir]')?.getAttribute('dir') === 'rtl'
+          : this.options.dir === 'rtl',
+    })
+  }
+
+  // Keep the note at its placed offset from the pointer and turn the pointer to face the target
+  private layoutNote(
+    x: number,
+    y: number,
+    layout: PlacementResult,
+    showNote: boolean,
+  ) {
+    this.orientPointer(x, y, layout)
+    if (!showNote) return
+    this.noteEl.style.left = `${x + layout.note.x - layout.pointer.x}px`
+    this.noteEl.style.top = `${y + layout.note.y - layout.pointer.y}px`
+    this.noteEl.style.display = 'block'
+    this.noteEl.style.transform = ''
   }
 
   private animateTo(
     x: number,
     y: number,
-    note?: string,
+    signal: AbortSignal,
+    note?: NoteContent,
     isFirstStep?: boolean,
-    flip?: boolean,
-  ) {
-    if (this.animating) return
+    layout?: PlacementResult,
+    target?: HTMLElement,
+  ): Promise<boolean> {
     this.animating = true
-    const duration = this.options.animationSpeed ?? 400 // ms
-    const startX = this.currentX
-    const startY = this.currentY
-    const deltaX = x - startX
-    const deltaY = y - startY
+    const animationId = ++this.animationId
+    let resolve!: (arrived: boolean) => void
+    const done = new Promise<boolean>((r) => (resolve = r))
+    // Reduced motion jumps straight to the target without fades or ripples
+    const reduceMotion = prefersReducedMotion()
+    // Animate the overlay cutout from its current rect to the target
+    const overlay = this.overlay
+    let fromRect: Rect | null = null
+    let toRect: Rect | null = null
+    if (overlay && target) {
+      toRect = overlay.getTargetRect(target)
+      fromRect = overlay.currentRect ?? toRect
+    }
+    const duration = reduceMotion ? 0 : (this.options.animationSpeed ?? 400) // ms
+    const ease = resolveEasing(this.options.easing ?? 'ease')
+    const from = { x: this.currentX, y: this.currentY }
+    const to = { x, y }
+    const pathMode = this.options.path ?? 'straight'
     const startTime = performance.now()
     const pointerEl = this.pointerEl
     const noteEl = this.noteEl
-    const pointerSize = this.options.pointerSize ?? 32
-    let noteWidth = 0
-    let noteHeight = 0
-    if (note) {
-      noteEl.textContent = note
-      noteEl.style.display = 'block'
-      noteEl.style.visibility = 'hidden'
-      noteEl.style.opacity = '0'
-      noteEl.style.left = '-9999px'
-      noteEl.style.top = '-9999px'
-      noteWidth = noteEl.offsetWidth
-      noteHeight = noteEl.offsetHeight
-      noteEl.setAttribute('aria-label', note)
-    }
-    const margin = 8
-    if (isFirstStep && note) {
+    if (isFirstStep && note && !reduceMotion) {
       noteEl.style.opacity = '0'
       noteEl.style.transition = 'opacity 0.4s'
       noteEl.style.visibility = 'hidden'
@@ -241,51 +527,35 @@ export class Pointer {
       noteEl.style.visibility = 'visible'
     }
     const animate = (now: number) => {
-      const elapsed = Math.min((now - startTime) / duration, 1)
-      const ease = (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t)
-      const t = ease(elapsed)
-      const curX = startX + deltaX * t
-      const curY = startY + deltaY * t
+      // A newer movement or hide() took over; stay where we are
+      if (signal.aborted) {
+        // Aborted through an external signal, cancel() was not called
+        if (animationId === this.animationId) this.animating = false
+        resolve(false)
+        return
+      }
+      const elapsed =
+        duration > 0 ? Math.min((now - startTime) / duration, 1) : 1
+      // Settle exactly on the target whatever the easing returns
+      const t = elapsed === 1 ? 1 : ease(elapsed)
+      const { x: curX, y: curY } = pathPoint(from, to, t, pathMode)
       pointerEl.style.left = `${curX}px`
       pointerEl.style.top = `${curY}px`
-      // Flip pointer vertically/horizontally if needed
-      let flipX = false
-      const flipY = !!flip
+      // Keep the drawn position so a cancelling movement starts from here
+      this.currentX = curX
+      this.currentY = curY
+      if (overlay && fromRect && toRect) {
+        overlay.setRect(lerpRect(fromRect, toRect, t))
+      }
+      if (layout) this.layoutNote(curX, curY, layout, !!note)
+      else this.orientPointer(curX, curY)
       if (note) {
-        const offsetX = pointerSize + 12
-        const offsetY = pointerSize + 8
-        let noteLeft = curX + offsetX
-        const noteTop = flip ? curY - noteHeight - 12 : curY + offsetY
-        // Flip horizontally if overflowing right
-        if (noteLeft + noteWidth > window.innerWidth - margin) {
-          noteLeft = window.innerWidth - noteWidth - 12
-          flipX = true
-        }
-        // If both, place top left
-        if (curX + offsetX + noteWidth > window.innerWidth - margin && flip) {
-          noteLeft = window.innerWidth - noteWidth - 12
-          flipX = true
-        }
-        noteEl.style.left = `${noteLeft}px`
-        noteEl.style.top = `${noteTop}px`
-        noteEl.style.display = 'block'
-        noteEl.style.transform = ''
-        // Set pointer transform
-        if (flipX && flipY) {
-          pointerEl.style.transform = 'scaleX(-1) scaleY(-1)'
-        } else if (flipX) {
-          pointerEl.style.transform = 'scaleX(-1)'
-        } else if (flipY) {
-          pointerEl.style.transform = 'scaleY(-1)'
-        } else {
-          pointerEl.style.transform = ''
-        }
         if (!isFirstStep) {
           noteEl.style.opacity = '1'
           noteEl.style.visibility = 'visible'
         }
         if (elapsed === 1) {
-          if (isFirstStep) {
+          if (isFirstStep && !reduceMotion) {
             setTimeout(() => {
               noteEl.style.visibility = 'visible'
               noteEl.style.opacity = '1'
@@ -295,37 +565,251 @@ export class Pointer {
         }
       } else {
         noteEl.style.display = 'none'
-        noteEl.removeAttribute('aria-label')
-        pointerEl.style.transform = ''
+        this.setNote(undefined)
       }
       if (elapsed < 1) {
         requestAnimationFrame(animate)
       } else {
-        this.currentX = x
-        this.currentY = y
         this.animating = false
+        if (this.options.clickEffect && !reduceMotion) this.ripple()
+        // Catch up with layout changes that happened during the animation
+        this.refresh()
+        resolve(true)
       }
     }
     requestAnimationFrame(animate)
+    return done
+  }
+
+  // Ripple at the pointer tip; it lives in the pointer so it mirrors with it
+  private ripple() {
+    const { hotspot = { x: 0, y: 0 } } = this.shape
+    const ripple = document.createElement('span')
+    ripple.className = 'pointer-ripple'
+    ripple.style.left = `${hotspot.x * 100}%`
+    ripple.style.top = `${hotspot.y * 100}%`
+    this.shapeEl.append(ripple)
+    setTimeout(() => ripple.remove(), 500)
+  }
+
+  // Render a shape unless it is already shown
+  private setShape(style: PointerStyle | PointerShape, force = false) {
+    if (style === this.shapeStyle && !force) return
+    this.shapeStyle = style
+    this.shape = resolvePointerShape(style)
+    this.shapeEl.replaceChildren(renderPointerShape(this.shape))
+    const { hotspot = { x: 0, y: 0 } } = this.shape
+    this.shapeEl.style.transformOrigin = `${hotspot.x * 100}% ${hotspot.y * 100}%`
+  }
+
+  // Put the shape's hotspot on the pointer corner facing the target, mirrored
+  // or rotated towards it; without a layout the hotspot sits at the pointer position
+  private orientPointer(x: number, y: number, layout?: PlacementResult) {
+    const aim =
+      this.options.rotate && this.aim
+        ? { x: this.aim.x - x, y: this.aim.y - y }
+        : null
+    this.shapeEl.style.transform = orientShape(
+      this.shape,
+      this.options.pointerSize ?? 32,
+      layout,
+      aim,
+    )
+  }
+
+  // Follow the target's size and the viewport until hidden or destroyed
+  private track(target: HTMLElement, note?: NoteContent) {
+    this.untrack()
+    this.target = target
+    this.note = note
+    const describedBy = target.getAttribute('aria-describedby')
+    target.setAttribute(
+      'aria-describedby',
+      describedBy
+        ? `${describedBy} ${this.descriptionEl.id}`
+        : this.descriptionEl.id,
+    )
+    // Scroll roots include shadow roots and iframes the target is in
+    this.layout.watch([target, document.body], getScrollRoots(target))
+    // Connectors to the pointer follow it to its new target
+    this.annotationLayer?.refresh()
+  }
+
+  private untrack() {
+    const describedBy = this.target
+      ?.getAttribute('aria-describedby')
+      ?.split(' ')
+      .filter((id) => id !== this.descriptionEl.id)
+      .join(' ')
+    if (describedBy) this.target!.setAttribute('aria-describedby', describedBy)
+    else this.target?.removeAttribute('aria-describedby')
+    this.target = null
+    this.note = undefined
+    this.layout.unwatch()
+    this.annotationLayer?.refresh()
+  }
+
+  // Render the note unless it is already shown, so nodes and render functions are not rebuilt
+  private setNote(note: NoteContent | undefined) {
+    if (note === this.renderedNote) return
+    this.renderedNote = note
+    const noteEl = this.noteEl
+    noteEl.removeAttribute('aria-label')
+    noteEl.removeAttribute('aria-labelledby')
+    noteEl.removeAttribute('aria-describedby')
+    if (note === undefined) {
+      noteEl.replaceChildren()
+      this.descriptionEl.textContent = ''
+      return
+    }
+    let content: Node
+    try {
+      content = renderNote(
+        note,
+        this.options.sanitize ?? sanitizeHTML,
+        (action) => this.events.emit('action', action),
+        this.messages,
+      )
+    } catch (error) {
+      // Render functions are user code, a failing one leaves the note empty
+      console.warn('[PointerJS] Rendering the note failed.', error)
+      content = document.createDocumentFragment()
+    }
+    noteEl.replaceChildren(content)
+    // Rich notes are labelled by their title and described by their body
+    const title = noteEl.querySelector('.note-title')
+    const body = noteEl.querySelector('.note-body')
+    if (title) {
+      title.id = 'note-title'
+      noteEl.setAttribute('aria-labelledby', title.id)
+    } else if (typeof note === 'string') {
+      noteEl.setAttribute('aria-label', note)
+    }
+    if (body) {
+      body.id = 'note-body'
+      noteEl.setAttribute('aria-describedby', body.id)
+    }
+    this.descriptionEl.textContent = Array.from(noteEl.childNodes)
+      .filter(
+        (node) =>
+          !(node instanceof Element) || !node.matches('.note-buttons, img'),
+      )
+      .map((node) => node.textContent)
+      .join(' ')
+      .trim()
+    if (this.progressEl) noteEl.prepend(this.progressEl)
+  }
+
+  // Cycle Tab focus within the note when trapping focus
+  private trapFocus = (e: KeyboardEvent) => {
+    if (e.key !== 'Tab' || !this.options.focusTrap) return
+    const focusable = [
+      this.noteEl,
+      ...Array.from(
+        this.noteEl.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+      ),
+    ]
+    const current = focusable.indexOf(
+      this.shadowRoot.activeElement as HTMLElement,
+    )
+    const next =
+      (current + (e.shiftKey ? -1 : 1) + focusable.length) % focusable.length
+    e.preventDefault()
+    focusable[next].focus()
   }
 
   /**
-   * Hide the pointer and note.
+   * Announce a message to screen readers through a polite live region.
+   * @param message Text to announce
    */
-  hide(): void {
-    this.pointerEl.style.display = 'none'
-    this.noteEl.style.display = 'none'
+  announce(message: string): void {
+    this.liveEl.textContent = message
+  }
+
+  /**
+   * Show the position in a flow at the top of the note.
+   * @param progress Current position and display style, or null to hide it
+   */
+  setProgress(progress: NoteProgress | null): void {
+    this.progressEl?.remove()
+    this.progressEl = progress ? renderProgress(progress, this.messages) : null
+    if (this.progressEl) this.noteEl.prepend(this.progressEl)
+  }
+
+  /**
+   * Subscribe to a pointer event.
+   * @param event Event name
+   * @param listener Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof PointerEvents>(event: K, listener: PointerEvents[K]) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribe from a pointer event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof PointerEvents>(event: K, listener: PointerEvents[K]) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Show a note centered in the viewport without pointing at an element.
+   * @param note Note to display
+   * @returns Promise that resolves to true once the note is shown, or false if cancelled
+   */
+  showNote(note: NoteContent): Promise<boolean> {
+    return this.schedule(() => {
+      const noteEl = this.noteEl
+      this.untrack()
+      this.pointerEl.style.display = 'none'
+      this.overlay?.setRect(null)
+      this.setNote(note)
+      noteEl.style.transition = ''
+      noteEl.style.display = 'block'
+      noteEl.style.visibility = 'visible'
+      noteEl.style.opacity = '1'
+      noteEl.style.left = `${Math.max(0, (window.innerWidth - noteEl.offsetWidth) / 2)}px`
+      noteEl.style.top = `${Math.max(0, (window.innerHeight - noteEl.offsetHeight) / 2)}px`
+      noteEl.focus()
+      return Promise.resolve(true)
+    })
+  }
+
+  /**
+   * Hide the pointer and note. Cancels the movement in progress and queued ones.
+   * @returns Promise that resolves to true once hidden, or false if cancelled
+   */
+  hide(): Promise<boolean> {
+    this.cancel()
+    return this.schedule(() => {
+      this.untrack()
+      this.pointerEl.style.display = 'none'
+      this.noteEl.style.display = 'none'
+      this.overlay?.hide()
+      return Promise.resolve(true)
+    })
   }
 
   /**
    * Show the pointer.
+   * @returns Promise that resolves to true once shown, or false if cancelled
    */
-  show(): void {
-    this.pointerEl.style.display = 'block'
-    // Accessibility: focus the note if visible
-    if (this.noteEl.style.display !== 'none') {
-      this.noteEl.focus()
-    }
+  show(): Promise<boolean> {
+    return this.schedule(
+      () => {
+        this.pointerEl.style.display = 'block'
+        // Accessibility: focus the note if visible
+        if (this.noteEl.style.display !== 'none') {
+          this.noteEl.focus()
+        }
+        return Promise.resolve(true)
+      },
+      undefined,
+      false,
+    )
   }
 
   /**
@@ -344,6 +828,12 @@ export class Pointer {
    * Remove the pointer from the DOM.
    */
   destroy(): void {
+    this.cancel()
+    this.untrack()
+    this.events.clear()
+    this.overlay?.destroy()
+    this.annotationLayer?.destroy()
+    this.annotationLayer = null
     this.container.remove()
   }
 }
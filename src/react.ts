@@ -0,0 +1,152 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+  type RefObject,
+} from 'react'
+import {
+  createControls,
+  disposeFlow,
+  releaseFlow,
+  watchFlow,
+  type FlowControls,
+  type FlowWatcher,
+  type SharedFlow,
+  type UseOnboardingOptions,
+} from './adapter'
+import {
+  FlowManager,
+  type FlowOptions,
+  type FlowStatus,
+  type OnboardingStep,
+} from './flow'
+import type { ElementTarget } from './dom'
+import type { PointerOptions } from './pointer'
+
+export type { FlowControls, UseOnboardingOptions } from './adapter'
+
+/**
+ * Onboarding step whose element can also be a React ref.
+ */
+export interface ReactOnboardingStep extends Omit<OnboardingStep, 'element'> {
+  element: ElementTarget | RefObject<HTMLElement | null>
+}
+
+/**
+ * Flow commands and state returned by `useOnboarding`.
+ */
+export interface OnboardingControls extends FlowControls {
+  /** Lifecycle state of the flow */
+  status: FlowStatus
+  /** Index of the current step */
+  currentStep: number
+  /** The underlying flow, e.g. to listen to events */
+  flow: FlowManager
+}
+
+/**
+ * Props of the OnboardingProvider component.
+ */
+export interface OnboardingProviderProps {
+  /** Pointer options of the shared flow */
+  pointerOptions?: PointerOptions
+  /** Flow options of the shared flow */
+  flowOptions?: FlowOptions
+  children?: ReactNode
+}
+
+const OnboardingContext = createContext<SharedFlow | null>(null)
+
+function toSteps(steps: ReactOnboardingStep[]): OnboardingStep[] {
+  return steps.map((step) => {
+    const { element } = step
+    if (typeof element !== 'object') return { ...step, element }
+    // Read on use, refs are only set once the target has rendered
+    const ref = () => element.current
+    return { ...step, element: ref }
+  })
+}
+
+/**
+ * Share one flow with every `useOnboarding` below, so that only one tour
+ * shows at a time. The flow is destroyed when the provider unmounts.
+ * @param props Options of the shared flow and children
+ */
+export function OnboardingProvider(props: OnboardingProviderProps): ReactNode {
+  // Creating a flow does not touch the DOM, so this renders on the server
+  const [shared] = useState<SharedFlow>(() => ({
+    flow: new FlowManager(props.pointerOptions, props.flowOptions),
+    owner: null,
+  }))
+  useEffect(() => () => disposeFlow(shared.flow), [shared])
+  return createElement(
+    OnboardingContext.Provider,
+    { value: shared },
+    props.children,
+  )
+}
+
+/**
+ * Run an onboarding flow from a component. The flow is cancelled when the
+ * component unmounts, and nothing touches the DOM before the component is mounted.
+ * @param steps Steps, whose elements can be selectors, resolvers or refs
+ * @param options Options of the flow unless it comes from an OnboardingProvider, and whether to start on mount
+ */
+export function useOnboarding(
+  steps: ReactOnboardingStep[],
+  options: UseOnboardingOptions = {},
+): OnboardingControls {
+  const context = useContext(OnboardingContext)
+  const [shared] = useState<SharedFlow>(
+    () =>
+      context ?? {
+        flow: new FlowManager(options.pointerOptions, options.flowOptions),
+        owner: null,
+      },
+  )
+  const owned = shared !== context
+  const { flow } = shared
+  const [state, setState] = useState(() => ({
+    status: flow.status,
+    currentStep: flow.currentStep,
+  }))
+  // Also identifies this component as the owner of a shared flow
+  const stepsRef = useRef(steps)
+  const watcherRef = useRef<FlowWatcher | null>(null)
+
+  useEffect(() => {
+    stepsRef.current = steps
+  })
+
+  const controls = useMemo(
+    () =>
+      createControls(
+        shared,
+        stepsRef,
+        () => toSteps(stepsRef.current),
+        () => watcherRef.current?.sync(),
+      ),
+    [shared],
+  )
+
+  useEffect(() => {
+    const watcher = watchFlow(flow, (status, currentStep) =>
+      setState({ status, currentStep }),
+    )
+    watcherRef.current = watcher
+    if (options.autoStart) controls.start()
+    return () => {
+      watcher.stop()
+      watcherRef.current = null
+      releaseFlow(shared, stepsRef, owned)
+    }
+    // Starting once per mount, later option changes are ignored
+  }, [shared])
+
+  return { ...controls, ...state, flow }
+}
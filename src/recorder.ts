@@ -0,0 +1,331 @@
+import { getViewportRect } from './dom'
+import { assertBrowser } from './env'
+import { Emitter } from './events'
+import { createLayer } from './layer'
+import { getSelector, type SelectorOptions } from './selector'
+import type { OnboardingStep } from './flow'
+
+/**
+ * Options for the tour recorder.
+ */
+export interface RecorderOptions extends SelectorOptions {
+  /** Ask for the note of a new step, resolve to null or "" to discard it (default: built-in input) */
+  prompt?: (
+    selector: string,
+    element: HTMLElement,
+  ) => string | null | Promise<string | null>
+  /** Highlight color (default: #8BD3E6) */
+  color?: string
+}
+
+/**
+ * Events emitted by a Recorder.
+ */
+export type RecorderEvents = {
+  /** A step was recorded */
+  step: (step: OnboardingStep, index: number) => void
+  /** Recording stopped, e.g. with Escape */
+  stop: (steps: OnboardingStep[]) => void
+}
+
+/**
+ * Authoring tool: while recording, hovered elements are highlighted with their
+ * selector, and clicking one asks for a note and adds a step.
+ * Clicks are not passed on to the page while recording.
+ */
+export class Recorder {
+  private shadowRoot: ShadowRoot
+  private container: HTMLElement
+  private highlightEl: HTMLElement
+  private labelEl: HTMLElement
+  private promptEl: HTMLElement
+  private promptLabelEl: HTMLLabelElement
+  private inputEl: HTMLInputElement
+  // Settles the open built-in prompt
+  private answer: ((note: string | null) => void) | null = null
+  // Top window and same-origin frame windows listened to while recording
+  private windows: Window[] = []
+  private options: RecorderOptions
+  private _steps: OnboardingStep[] = []
+  private _recording = false
+  private hovered: HTMLElement | null = null
+  private events = new Emitter<RecorderEvents>()
+
+  /**
+   * Create a new Recorder. Nothing happens until `start` is called.
+   * @param options RecorderOptions for selectors, prompts and colors
+   */
+  constructor(options: RecorderOptions = {}) {
+    assertBrowser('Recorder')
+    this.options = {
+      ...options,
+      color: options.color || '#8BD3E6',
+      prompt: options.prompt ?? this.ask,
+    }
+
+    const layer = createLayer('pointerjs pointerjs-recorder', 1000000)
+    this.container = layer.container
+    this.container.style.display = 'none'
+    this.shadowRoot = layer.shadowRoot
+
+    const style = document.createElement('style')
+    style.textContent = `
+      .highlight {
+        position: absolute;
+        display: none;
+        box-sizing: border-box;
+        border: 2px solid ${this.options.color};
+        background: ${this.options.color}33;
+        border-radius: 4px;
+      }
+      .label {
+        position: absolute;
+        bottom: 100%;
+        left: -2px;
+        max-width: 60vw;
+        margin-bottom: 4px;
+        padding: 2px 6px;
+        border-radius: 4px;
+        background: ${this.options.color};
+        color: #fff;
+        font: 12px/1.4 monospace;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+      .prompt {
+        position: absolute;
+        bottom: 24px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: none;
+        flex-direction: column;
+        gap: 6px;
+        width: min(360px, 90vw);
+        padding: 10px 12px;
+        border: 2px solid ${this.options.color};
+        border-radius: 6px;
+        background: #fff;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+        color: #222;
+        font: 13px/1.4 sans-serif;
+        pointer-events: auto;
+      }
+      .prompt-label {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .prompt input {
+        font: inherit;
+        padding: 4px 6px;
+      }
+    `
+    this.shadowRoot.append(style)
+
+    this.highlightEl = document.createElement('div')
+    this.highlightEl.className = 'highlight'
+    this.highlightEl.setAttribute('part', 'highlight')
+    this.labelEl = document.createElement('div')
+    this.labelEl.className = 'label'
+    this.labelEl.setAttribute('part', 'label')
+    this.highlightEl.append(this.labelEl)
+    this.shadowRoot.append(this.highlightEl)
+
+    // Built-in prompt: Enter adds the step, Escape discards it
+    this.promptEl = document.createElement('div')
+    this.promptEl.className = 'prompt'
+    this.promptEl.setAttribute('part', 'prompt')
+    this.promptLabelEl = document.createElement('label')
+    this.promptLabelEl.className = 'prompt-label'
+    this.inputEl = document.createElement('input')
+    this.inputEl.type = 'text'
+    this.inputEl.placeholder = 'Press Enter to add, Escape to discard'
+    this.promptLabelEl.htmlFor = 'pointerjs-recorder-note'
+    this.inputEl.id = 'pointerjs-recorder-note'
+    this.inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.answer?.(this.inputEl.value)
+    })
+    this.promptEl.append(this.promptLabelEl, this.inputEl)
+    this.shadowRoot.append(this.promptEl)
+  }
+
+  /**
+   * Whether clicks are currently recorded.
+   */
+  get recording(): boolean {
+    return this._recording
+  }
+
+  /**
+   * Steps recorded so far.
+   */
+  get steps(): OnboardingStep[] {
+    return [...this._steps]
+  }
+
+  /**
+   * Start recording clicks.
+   */
+  start(): void {
+    if (this._recording) return
+    this._recording = true
+    this.container.style.display = 'block'
+    this.windows = getFrameWindows(window)
+    for (const win of this.windows) {
+      win.addEventListener('mouseover', this.onHover, true)
+      win.addEventListener('click', this.onClick, true)
+      win.addEventListener('keydown', this.onKeyDown, true)
+    }
+  }
+
+  /**
+   * Stop recording. Recorded steps are kept.
+   */
+  stop(): void {
+    if (!this._recording) return
+    this._recording = false
+    this.container.style.display = 'none'
+    this.highlightEl.style.display = 'none'
+    this.hovered = null
+    this.answer?.(null)
+    for (const win of this.windows) {
+      win.removeEventListener('mouseover', this.onHover, true)
+      win.removeEventListener('click', this.onClick, true)
+      win.removeEventListener('keydown', this.onKeyDown, true)
+    }
+    this.windows = []
+    this.events.emit('stop', this.steps)
+  }
+
+  /**
+   * Remove all recorded steps.
+   */
+  clear(): void {
+    this._steps = []
+  }
+
+  /**
+   * Recorded steps as JSON, to pass to `startOnboarding` or use as the steps of a tour file.
+   * @returns Pretty-printed JSON array of steps
+   */
+  export(): string {
+    return JSON.stringify(this._steps, null, 2)
+  }
+
+  /**
+   * Subscribe to a recorder event.
+   * @param event Event name
+   * @param listener Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof RecorderEvents>(event: K, listener: RecorderEvents[K]) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribe from a recorder event.
+   * @param event Event name
+   * @param listener Previously registered callback
+   */
+  off<K extends keyof RecorderEvents>(event: K, listener: RecorderEvents[K]) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Stop recording and remove the highlight from the DOM.
+   */
+  destroy(): void {
+    this.stop()
+    this.events.clear()
+    this.container.remove()
+  }
+
+  // Innermost page element of an event, including inside open shadow roots
+  private getTarget(e: Event): HTMLElement | null {
+    const path = e.composedPath()
+    if (path.includes(this.container)) return null
+    const [origin] = path
+    return isElement(origin) ? origin : null
+  }
+
+  // Default prompt, an input inside the recorder so the page keeps running
+  private ask = (selector: string): Promise<string | null> => {
+    this.answer?.(null)
+    this.promptLabelEl.textContent = `Note for ${selector}`
+    this.inputEl.value = ''
+    this.promptEl.style.display = 'flex'
+    this.inputEl.focus()
+    return new Promise((resolve) => {
+      this.answer = (note) => {
+        this.answer = null
+        this.promptEl.style.display = 'none'
+        resolve(note)
+      }
+    })
+  }
+
+  private onHover = (e: MouseEvent) => {
+    const target = this.getTarget(e)
+    if (!target || target === this.hovered) return
+    this.hovered = target
+    const rect = getViewportRect(target)
+    this.highlightEl.style.display = 'block'
+    this.highlightEl.style.left = `${rect.x}px`
+    this.highlightEl.style.top = `${rect.y}px`
+    this.highlightEl.style.width = `${rect.width}px`
+    this.highlightEl.style.height = `${rect.height}px`
+    this.labelEl.textContent = getSelector(target, this.options)
+  }
+
+  private onClick = async (e: MouseEvent) => {
+    const target = this.getTarget(e)
+    if (!target) return
+    // Keep the page from reacting, e.g. following links
+    e.preventDefault()
+    e.stopImmediatePropagation()
+    const selector = getSelector(target, this.options)
+    let note: string | null
+    try {
+      note = await this.options.prompt!(selector, target)
+    } catch (error) {
+      console.warn(`[PointerJS] Prompt failed for ${selector}.`, error)
+      return
+    }
+    if (!note) return
+    const step: OnboardingStep = { element: selector, note }
+    this._steps.push(step)
+    this.events.emit('step', step, this._steps.length - 1)
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.key !== 'Escape') return
+    // Escape discards an open prompt first
+    if (this.answer) {
+      this.answer(null)
+    } else {
+      this.stop()
+    }
+  }
+}
+
+// Elements inside iframes belong to another realm, so instanceof fails
+function isElement(target: EventTarget | undefined): target is HTMLElement {
+  return (
+    !!target && 'nodeType' in target && target.nodeType === Node.ELEMENT_NODE
+  )
+}
+
+// A window and the windows of its same-origin frames, recursively
+function getFrameWindows(win: Window): Window[] {
+  const windows = [win]
+  for (const frame of Array.from(win.document.querySelectorAll('iframe'))) {
+    // Cross-origin frames throw or return null
+    try {
+      if (frame.contentDocument && frame.contentWindow) {
+        windows.push(...getFrameWindows(frame.contentWindow))
+      }
+    } catch {}
+  }
+  return windows
+}
@@ -0,0 +1,33 @@
+interface LockState {
+  count: number
+  overflow: string
+}
+
+const locks = new WeakMap<HTMLElement, LockState>()
+
+/**
+ * Stop an element from scrolling until every lock on it is released.
+ * Locks are counted, so overlapping or restarted flows restore the original
+ * overflow exactly once.
+ * @param el Element to lock, e.g. document.body or an inner scroller
+ * @returns Function releasing the lock; calling it again does nothing
+ */
+export function lockScroll(el: HTMLElement): () => void {
+  let state = locks.get(el)
+  if (!state) {
+    state = { count: 0, overflow: el.style.overflow }
+    locks.set(el, state)
+    el.style.overflow = 'hidden'
+  }
+  const lock = state
+  lock.count++
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    if (--lock.count > 0) return
+    locks.delete(el)
+    // Keep the value if something else, e.g. a modal, changed it meanwhile
+    if (el.style.overflow === 'hidden') el.style.overflow = lock.overflow
+  }
+}
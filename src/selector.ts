@@ -0,0 +1,116 @@
+import { getFrameElement, SELECTOR_CHAIN } from './dom'
+
+/**
+ * Options for generating selectors.
+ */
+export interface SelectorOptions {
+  /** Attributes identifying elements, in order of preference (default: data-testid, data-test, data-cy, data-qa, data-pointer-step) */
+  attributes?: string[]
+  /** Whether an id can be relied on; by default ids that look generated, like "ember123" or ":r1:", are skipped */
+  isStableId?: (id: string) => boolean
+}
+
+const DEFAULT_ATTRIBUTES = [
+  'data-testid',
+  'data-test',
+  'data-cy',
+  'data-qa',
+  'data-pointer-step',
+]
+const GENERATED_ID = /\d{3,}|^\d|:/
+const IDENTIFIER = /^[a-z_][\w-]*$/i
+
+/**
+ * Escape a value for use inside a double-quoted attribute selector.
+ * @param value Attribute value
+ */
+export function escapeAttribute(value: string): string {
+  return value.replaceAll(/["\\]/g, String.raw`\$&`)
+}
+
+/**
+ * Generate a unique selector for an element, preferring a stable id, then a
+ * test attribute, then the shortest structural path from such an anchor.
+ * Elements in shadow roots and same-origin iframes get chained selectors.
+ * @param el Element to select
+ * @param options Selector options
+ */
+export function getSelector(
+  el: Element,
+  options: SelectorOptions = {},
+): string {
+  const root = el.getRootNode()
+  if (root instanceof ShadowRoot) {
+    return `${getSelector(root.host, options)} ${SELECTOR_CHAIN} ${getLocalSelector(el, root, options)}`
+  }
+  const doc = el.ownerDocument
+  const local = getLocalSelector(el, doc, options)
+  const frame = getFrameElement(doc)
+  return frame
+    ? `${getSelector(frame, options)} ${SELECTOR_CHAIN} ${local}`
+    : local
+}
+
+// Selector unique within the document or shadow root the element is in.
+// Paths start at the closest identifiable ancestor, which survives changes
+// elsewhere on the page, else they are as short as possible.
+function getLocalSelector(
+  el: Element,
+  root: Document | ShadowRoot,
+  options: SelectorOptions,
+): string {
+  const segments: string[] = []
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const anchor = identify(node, root, options)
+    if (anchor) return [anchor, ...segments].join(' > ')
+    segments.unshift(getSegment(node))
+  }
+  for (let i = segments.length - 1; i > 0; i--) {
+    const selector = segments.slice(i).join(' > ')
+    if (isUnique(selector, root, el)) return selector
+  }
+  return segments.join(' > ')
+}
+
+// Selector matching only this element by id or attribute, if there is one
+function identify(
+  el: Element,
+  root: Document | ShadowRoot,
+  options: SelectorOptions,
+): string | null {
+  const { attributes = DEFAULT_ATTRIBUTES } = options
+  const isStableId = options.isStableId ?? ((id) => !GENERATED_ID.test(id))
+  const candidates: string[] = []
+  if (el.id && isStableId(el.id)) {
+    candidates.push(
+      IDENTIFIER.test(el.id) ? `#${el.id}` : `[id="${escapeAttribute(el.id)}"]`,
+    )
+  }
+  for (const name of attributes) {
+    const value = el.getAttribute(name)
+    if (value) candidates.push(`[${name}="${escapeAttribute(value)}"]`)
+  }
+  return candidates.find((selector) => isUnique(selector, root, el)) ?? null
+}
+
+// Tag name, with its position among siblings of the same tag if needed
+function getSegment(el: Element): string {
+  const tag = el.localName
+  const siblings = el.parentElement
+    ? Array.from(el.parentElement.children).filter(
+        (sibling) => sibling.localName === tag,
+      )
+    : []
+  return siblings.length > 1
+    ? `${tag}:nth-of-type(${siblings.indexOf(el) + 1})`
+    : tag
+}
+
+function isUnique(
+  selector: string,
+  root: Document | ShadowRoot,
+  el: Element,
+): boolean {
+  const matches = root.querySelectorAll(selector)
+  return matches.length === 1 && matches[0] === el
+}
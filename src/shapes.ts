@@ -0,0 +1,153 @@
+import type { Point } from './animation'
+
+/**
+ * A pointer icon and where it touches the target.
+ */
+export interface PointerShape {
+  /** SVG markup, an image URL, or a function creating the pointer element */
+  content: string | (() => Node)
+  /** Point of the shape that touches the target, as fractions of its size (default: top-left corner) */
+  hotspot?: Point
+  /** Direction the shape points in, in degrees clockwise from the x axis; shapes without one are never rotated */
+  direction?: number
+}
+
+/**
+ * Name of a built-in or registered pointer shape.
+ */
+export type PointerStyle = 'arrow' | 'hand' | 'circle' | (string & {})
+
+const shapes = new Map<string, PointerShape>([
+  [
+    'arrow',
+    {
+      content: `<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <path fill="currentColor" d="M19.503 9.97c1.204.489 1.112 2.224-.137 2.583l-6.306 1.813-2.88 5.895c-.57 1.168-2.295.957-2.568-.314L4.677 6.257A1.369 1.369 0 0 1 6.53 4.7L19.503 9.97Z" clip-rule="evenodd"/>
+        </svg>`,
+      hotspot: { x: 0.2, y: 0.2 },
+      direction: -135,
+    },
+  ],
+  [
+    'hand',
+    {
+      content: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 800 800" fill="none">
+            <path fill="currentColor" d="M587.5 262.5a86.965 86.965 0 0 0-45.756 12.953 87.449 87.449 0 0 0-49.633-45.292A87.435 87.435 0 0 0 425 233.459V112.5a87.502 87.502 0 0 0-149.372-61.872A87.502 87.502 0 0 0 250 112.5v285.656l-21.872-37.884a87.5 87.5 0 0 0-152.094 86.55C177.428 660.622 244.978 750 400 750a275.311 275.311 0 0 0 275-275V350a87.602 87.602 0 0 0-25.656-61.844A87.602 87.602 0 0 0 587.5 262.5Z"/>
+        </svg>`,
+      hotspot: { x: 0.42, y: 0.04 },
+      direction: -90,
+    },
+  ],
+  [
+    'circle',
+    {
+      content: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32" fill="none">
+          <circle cx="16" cy="16" r="12" fill="currentColor" />
+        </svg>`,
+      hotspot: { x: 0.5, y: 0.5 },
+    },
+  ],
+])
+
+/**
+ * Register a pointer shape so it can be used by name in `pointerStyle`.
+ * @param name Shape name; registering a built-in name replaces it
+ * @param shape Shape definition
+ */
+export function registerPointerShape(name: string, shape: PointerShape): void {
+  shapes.set(name, shape)
+}
+
+/**
+ * Look up a pointer shape, falling back to the arrow for unknown names.
+ * @param style Shape name or definition
+ */
+export function resolvePointerShape(
+  style: PointerStyle | PointerShape,
+): PointerShape {
+  if (typeof style !== 'string') return style
+  const shape = shapes.get(style)
+  if (shape) return shape
+  console.warn(`[PointerJS] Unknown pointer style "${style}", using "arrow".`)
+  return shapes.get('arrow')!
+}
+
+/**
+ * CSS for pointers: a box of the pointer size holding the shape.
+ * @param size Pointer size in px
+ */
+export function pointerStyles(size: number): string {
+  return `
+  .pointer {
+    width: ${size}px;
+    height: ${size}px;
+    background: transparent;
+    color: var(--pointerjs-color);
+    position: absolute;
+    left: 0;
+    top: 0;
+    z-index: 2;
+    pointer-events: none;
+  }
+  .pointer-shape {
+    position: absolute;
+    inset: 0;
+    display: block;
+  }
+  .pointer-shape > svg,
+  .pointer-shape > img {
+    display: block;
+    width: 100%;
+    height: 100%;
+  }
+  `
+}
+
+/**
+ * CSS transform putting the shape's hotspot on the pointer corner facing the
+ * target, mirrored, or rotated towards `aim` for shapes with a direction.
+ * Without flips the hotspot sits at the top-left corner of the pointer box.
+ * The shape element's transform origin must be its hotspot.
+ * @param shape Shape definition
+ * @param size Pointer size in px
+ * @param flip Whether the target is on the left or above
+ * @param flip.flipX Target is on the left
+ * @param flip.flipY Target is above
+ * @param aim Point to rotate towards, relative to the pointer box
+ */
+export function orientShape(
+  shape: PointerShape,
+  size: number,
+  flip?: { flipX: boolean; flipY: boolean },
+  aim?: Point | null,
+): string {
+  const { hotspot = { x: 0, y: 0 }, direction } = shape
+  const cornerX = flip?.flipX ? size : 0
+  const cornerY = flip?.flipY ? size : 0
+  let turn = ''
+  if (flip && aim && direction !== undefined) {
+    const angle = Math.atan2(aim.y - cornerY, aim.x - cornerX)
+    turn = `rotate(${(angle * 180) / Math.PI - direction}deg)`
+  } else if (flip) {
+    turn = `scale(${flip.flipX ? -1 : 1}, ${flip.flipY ? -1 : 1})`
+  }
+  return `translate(${cornerX - hotspot.x * size}px, ${cornerY - hotspot.y * size}px) ${turn}`.trim()
+}
+
+/**
+ * Create the DOM for a pointer shape. Markup is trusted, as it comes from code rather than content.
+ * @param shape Shape definition
+ */
+export function renderPointerShape(shape: PointerShape): Node {
+  const { content } = shape
+  if (typeof content === 'function') return content()
+  if (content.trim().startsWith('<')) {
+    const template = document.createElement('template')
+    template.innerHTML = content.trim()
+    return template.content
+  }
+  const img = document.createElement('img')
+  img.src = content
+  img.alt = ''
+  return img
+}
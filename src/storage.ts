@@ -0,0 +1,93 @@
+import { isBrowser } from './env'
+
+/**
+ * Minimal key/value storage used to persist onboarding state.
+ * Compatible with `window.sessionStorage` and `window.localStorage`.
+ */
+export interface StorageAdapter {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+  removeItem: (key: string) => void
+}
+
+/**
+ * Built-in storage names or a custom adapter.
+ */
+export type StorageOption = 'session' | 'local' | 'memory' | StorageAdapter
+
+/**
+ * Create an in-memory storage adapter (lost on page reload).
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value)
+    },
+    removeItem: (key) => {
+      data.delete(key)
+    },
+  }
+}
+
+// Shared so that 'memory' state survives across flow instances on the same page
+let memoryStorage: StorageAdapter | null = null
+
+/**
+ * Resolve a storage option to an adapter.
+ * Falls back to in-memory storage if Web Storage is unavailable, e.g. on the server.
+ * @param option Storage name or custom adapter
+ */
+export function resolveStorage(option: StorageOption): StorageAdapter {
+  if (typeof option === 'object') return option
+  if (option === 'memory') return (memoryStorage ||= createMemoryStorage())
+  // Expected during server-side rendering, no need to warn
+  if (!isBrowser()) return resolveStorage('memory')
+  try {
+    const storage =
+      option === 'local' ? window.localStorage : window.sessionStorage
+    // Probe access, some browsers throw in private mode
+    const probe = '__pointerjs__'
+    storage.setItem(probe, probe)
+    storage.removeItem(probe)
+    return storage
+  } catch {
+    console.warn(
+      `[PointerJS] ${option}Storage is not available, using in-memory storage.`,
+    )
+    return resolveStorage('memory')
+  }
+}
+
+/**
+ * Read and parse a JSON value from storage.
+ * @param storage Storage adapter
+ * @param key Storage key
+ */
+export function readJSON<T>(storage: StorageAdapter, key: string): T | null {
+  try {
+    const raw = storage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Serialize and write a JSON value to storage.
+ * @param storage Storage adapter
+ * @param key Storage key
+ * @param value Value to store
+ */
+export function writeJSON(
+  storage: StorageAdapter,
+  key: string,
+  value: unknown,
+): void {
+  try {
+    storage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn('[PointerJS] Failed to persist onboarding state.', error)
+  }
+}
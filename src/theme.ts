@@ -0,0 +1,152 @@
+/**
+ * Note color presets. "auto" follows the system color scheme.
+ */
+export type Theme = 'light' | 'dark' | 'auto'
+
+/**
+ * Options used to style notes.
+ */
+export interface NoteStyleOptions {
+  color?: string
+  fontFamily?: string
+  fontSize?: string
+  theme?: Theme
+}
+
+const LIGHT = `
+    --pointerjs-note-background: #fff;
+    --pointerjs-note-color: #1f2933;
+    --pointerjs-note-shadow: 0 4px 24px 0 rgba(0, 0, 0, 0.16);
+    --pointerjs-button-background: rgba(0, 0, 0, 0.06);
+    --pointerjs-button-hover-background: rgba(0, 0, 0, 0.12);
+    --pointerjs-progress-color: var(--pointerjs-color);
+    --pointerjs-progress-track: rgba(0, 0, 0, 0.12);`
+
+const DARK = `
+    --pointerjs-note-background: #1f2933;
+    --pointerjs-note-color: #f5f7fa;
+    --pointerjs-note-shadow: 0 4px 24px 0 rgba(0, 0, 0, 0.48);
+    --pointerjs-button-background: rgba(255, 255, 255, 0.12);
+    --pointerjs-button-hover-background: rgba(255, 255, 255, 0.2);
+    --pointerjs-progress-color: var(--pointerjs-color);
+    --pointerjs-progress-track: rgba(255, 255, 255, 0.2);`
+
+function themeStyles(theme: Theme | undefined): string {
+  if (theme === 'light') return `:host {${LIGHT}\n  }`
+  if (theme === 'dark') return `:host {${DARK}\n  }`
+  if (theme === 'auto') {
+    return `:host {${LIGHT}\n  }
+  @media (prefers-color-scheme: dark) {
+    :host {${DARK}\n    }
+  }`
+  }
+  return ''
+}
+
+/**
+ * CSS for notes and their content, shared by every shadow root that renders notes.
+ * Options set the defaults of the `--pointerjs-*` custom properties, which page
+ * styles on the host element override.
+ * @param options Note colors, fonts and theme
+ */
+export function noteStyles(options: NoteStyleOptions): string {
+  const {
+    color = '#8BD3E6',
+    fontFamily = 'inherit',
+    fontSize = '14px',
+    theme,
+  } = options
+  return `
+  :host {
+    --pointerjs-color: ${color};
+    --pointerjs-font-family: ${fontFamily};
+    --pointerjs-font-size: ${fontSize};
+    --pointerjs-note-background: var(--pointerjs-color);
+    --pointerjs-note-color: #fff;
+    --pointerjs-note-padding: 12px 24px;
+    --pointerjs-note-radius: 16px;
+    --pointerjs-note-shadow: 0 2px 16px 0 ${color}22;
+    --pointerjs-button-background: rgba(255, 255, 255, 0.2);
+    --pointerjs-button-hover-background: rgba(255, 255, 255, 0.35);
+    --pointerjs-progress-color: #fff;
+    --pointerjs-progress-track: rgba(255, 255, 255, 0.35);
+  }
+  ${themeStyles(theme)}
+  .note {
+    position: absolute;
+    /* Position bottom right of pointer with offset */
+    left: unset;
+    top: unset;
+    background: var(--pointerjs-note-background);
+    color: var(--pointerjs-note-color);
+    padding: var(--pointerjs-note-padding);
+    border-radius: var(--pointerjs-note-radius);
+    font-size: var(--pointerjs-font-size);
+    box-shadow: var(--pointerjs-note-shadow);
+    white-space: pre-line;
+    pointer-events: auto;
+    z-index: 10;
+    font-family: var(--pointerjs-font-family);
+    transition: background 0.2s, color 0.2s, font-size 0.2s, font-family 0.2s;
+  }
+  .note-image {
+    display: block;
+    max-width: 100%;
+    border-radius: 8px;
+    margin-bottom: 8px;
+  }
+  .note-title {
+    font-weight: 600;
+    margin-bottom: 4px;
+  }
+  .note-buttons {
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+    margin-top: 12px;
+  }
+  .note-button {
+    background: var(--pointerjs-button-background);
+    color: inherit;
+    border: none;
+    border-radius: 8px;
+    padding: 4px 12px;
+    font: inherit;
+    cursor: pointer;
+  }
+  .note-button:hover,
+  .note-button:focus-visible {
+    background: var(--pointerjs-button-hover-background);
+  }
+  .note-progress {
+    margin-bottom: 8px;
+    font-size: 0.85em;
+    opacity: 0.85;
+  }
+  .note-progress-dots {
+    display: flex;
+    gap: 4px;
+  }
+  .note-progress-dot {
+    width: 6px;
+    height: 6px;
+    border-radius: 50%;
+    background: var(--pointerjs-progress-track);
+  }
+  .note-progress-dot.is-active {
+    background: var(--pointerjs-progress-color);
+  }
+  .note-progress-bar {
+    height: 4px;
+    border-radius: 2px;
+    background: var(--pointerjs-progress-track);
+    overflow: hidden;
+  }
+  .note-progress-fill {
+    display: block;
+    height: 100%;
+    background: var(--pointerjs-progress-color);
+    transition: width 0.2s;
+  }
+  `
+}
@@ -0,0 +1,115 @@
+import {
+  readJSON,
+  resolveStorage,
+  writeJSON,
+  type StorageAdapter,
+  type StorageOption,
+} from './storage'
+
+/**
+ * What is remembered about a tour for a user.
+ */
+export interface TourState {
+  /** The tour was shown at least once */
+  seen: boolean
+  /** The tour was finished */
+  completed: boolean
+  /** Index of the step the tour was dismissed at */
+  dismissedAt?: number
+  /** Index of the last step shown */
+  lastStep?: number
+  /** Version of the tour the state belongs to */
+  version?: number
+}
+
+const DEFAULT_STATE_KEY = 'pointerjs:tours'
+
+/**
+ * Stores tour states by tour id, in localStorage by default.
+ */
+export class TourStateStore {
+  private storage: StorageAdapter
+  private key: string
+
+  /**
+   * Create a new TourStateStore.
+   * @param storage Where to keep tour states (default: "local")
+   * @param key Storage key (default: "pointerjs:tours")
+   */
+  constructor(storage: StorageOption = 'local', key = DEFAULT_STATE_KEY) {
+    this.storage = resolveStorage(storage)
+    this.key = key
+  }
+
+  private readAll(): Record<string, TourState> {
+    return readJSON<Record<string, TourState>>(this.storage, this.key) ?? {}
+  }
+
+  /**
+   * Get the state of a tour.
+   * @param tourId Tour id
+   */
+  get(tourId: string): TourState | null {
+    return this.readAll()[tourId] ?? null
+  }
+
+  /**
+   * Update the state of a tour.
+   * @param tourId Tour id
+   * @param patch Fields to change
+   */
+  update(tourId: string, patch: Partial<TourState>): TourState {
+    const states = this.readAll()
+    const current: Partial<TourState> = states[tourId] ?? {}
+    const state = { seen: false, completed: false, ...current, ...patch }
+    states[tourId] = state
+    writeJSON(this.storage, this.key, states)
+    return state
+  }
+
+  /**
+   * Whether a tour was finished.
+   * @param tourId Tour id
+   */
+  hasCompleted(tourId: string): boolean {
+    return !!this.get(tourId)?.completed
+  }
+
+  /**
+   * Forget a tour, or all tours, so they are shown again.
+   * @param tourId Tour id (default: all tours)
+   */
+  reset(tourId?: string): void {
+    if (tourId === undefined) {
+      this.storage.removeItem(this.key)
+      return
+    }
+    const states = this.readAll()
+    delete states[tourId]
+    writeJSON(this.storage, this.key, states)
+  }
+}
+
+/**
+ * Get the state of a tour from the default localStorage store.
+ * @param tourId Tour id
+ */
+export function getTourState(tourId: string): TourState | null {
+  return new TourStateStore().get(tourId)
+}
+
+/**
+ * Whether a tour was finished, according to the default localStorage store.
+ * @param tourId Tour id
+ */
+export function hasCompleted(tourId: string): boolean {
+  return new TourStateStore().hasCompleted(tourId)
+}
+
+/**
+ * Forget a tour, or all tours, in the default localStorage store.
+ * @param tourId Tour id (default: all tours)
+ */
+export function resetTour(tourId?: string): void {
+  new TourStateStore().reset(tourId)
+}
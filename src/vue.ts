@@ -0,0 +1,153 @@
+import {
+  defineComponent,
+  inject,
+  isRef,
+  onBeforeUnmount,
+  onMounted,
+  provide,
+  readonly,
+  ref,
+  toValue,
+  unref,
+  type ComponentPublicInstance,
+  type InjectionKey,
+  type MaybeRefOrGetter,
+  type PropType,
+  type Ref,
+} from 'vue'
+import {
+  createControls,
+  disposeFlow,
+  releaseFlow,
+  watchFlow,
+  type FlowControls,
+  type FlowWatcher,
+  type SharedFlow,
+  type UseOnboardingOptions,
+} from './adapter'
+import {
+  FlowManager,
+  type FlowOptions,
+  type FlowStatus,
+  type OnboardingStep,
+} from './flow'
+import type { ElementTarget } from './dom'
+import type { PointerOptions } from './pointer'
+
+export type { FlowControls, UseOnboardingOptions } from './adapter'
+
+/**
+ * Template ref of an element or a component.
+ */
+export type ElementRef = Ref<
+  HTMLElement | ComponentPublicInstance | null | undefined
+>
+
+/**
+ * Onboarding step whose element can also be a template ref.
+ */
+export interface VueOnboardingStep extends Omit<OnboardingStep, 'element'> {
+  element: ElementTarget | ElementRef
+}
+
+/**
+ * Flow commands and reactive state returned by `useOnboarding`.
+ */
+export interface OnboardingControls extends FlowControls {
+  /** Lifecycle state of the flow */
+  status: Readonly<Ref<FlowStatus>>
+  /** Index of the current step */
+  currentStep: Readonly<Ref<number>>
+  /** The underlying flow, e.g. to listen to events */
+  flow: FlowManager
+}
+
+const onboardingKey: InjectionKey<SharedFlow> = Symbol('pointerjs')
+
+function toSteps(steps: VueOnboardingStep[]): OnboardingStep[] {
+  return steps.map((step) => {
+    const { element } = step
+    if (!isRef(element)) return { ...step, element }
+    // Read on use, template refs are only set once the target has rendered
+    const ref = () => {
+      const value = unref(element)
+      const el = value && '$el' in value ? value.$el : value
+      return el instanceof HTMLElement ? el : null
+    }
+    return { ...step, element: ref }
+  })
+}
+
+/**
+ * Share one flow with every `useOnboarding` below, so that only one tour
+ * shows at a time. The flow is destroyed when the provider unmounts.
+ */
+export const OnboardingProvider = defineComponent({
+  name: 'OnboardingProvider',
+  props: {
+    /** Pointer options of the shared flow */
+    pointerOptions: Object as PropType<PointerOptions>,
+    /** Flow options of the shared flow */
+    flowOptions: Object as PropType<FlowOptions>,
+  },
+  setup(props, { slots }) {
+    // Creating a flow does not touch the DOM, so this renders on the server
+    const shared: SharedFlow = {
+      flow: new FlowManager(props.pointerOptions, props.flowOptions),
+      owner: null,
+    }
+    provide(onboardingKey, shared)
+    onBeforeUnmount(() => disposeFlow(shared.flow))
+    return () => slots.default?.()
+  },
+})
+
+/**
+ * Run an onboarding flow from a component. The flow is cancelled when the
+ * component unmounts, and nothing touches the DOM before the component is mounted.
+ * @param steps Steps, whose elements can be selectors, resolvers or template refs
+ * @param options Options of the flow unless it comes from an OnboardingProvider, and whether to start on mount
+ */
+export function useOnboarding(
+  steps: MaybeRefOrGetter<VueOnboardingStep[]>,
+  options: UseOnboardingOptions = {},
+): OnboardingControls {
+  const provided = inject(onboardingKey, null)
+  const shared: SharedFlow = provided ?? {
+    flow: new FlowManager(options.pointerOptions, options.flowOptions),
+    owner: null,
+  }
+  const { flow } = shared
+  const status = ref<FlowStatus>(flow.status)
+  const currentStep = ref(flow.currentStep)
+  // Identifies this component as the owner of a shared flow
+  const owner = {}
+  let watcher: FlowWatcher | null = null
+
+  const controls = createControls(
+    shared,
+    owner,
+    () => toSteps(toValue(steps)),
+    () => watcher?.sync(),
+  )
+
+  onMounted(() => {
+    watcher = watchFlow(flow, (value, step) => {
+      status.value = value
+      currentStep.value = step
+    })
+    if (options.autoStart) controls.start()
+  })
+  onBeforeUnmount(() => {
+    watcher?.stop()
+    watcher = null
+    releaseFlow(shared, owner, !provided)
+  })
+
+  return {
+    ...controls,
+    status: readonly(status),
+    currentStep: readonly(currentStep),
+    flow,
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  getViewportRect,
+  resolveElement,
+  SELECTOR_CHAIN,
+  type ElementTarget,
+} from './dom'
+
+/**
+ * Options for waiting on elements that are not rendered yet.
+ */
+export interface WaitOptions {
+  /** Max time to wait in ms (default: 3000) */
+  timeout?: number
+  /** "observe" watches DOM mutations, "poll" checks on an interval (default: "observe") */
+  strategy?: 'observe' | 'poll'
+  /** Polling interval in ms (default: 100) */
+  interval?: number
+}
+
+/**
+ * Wait until an element matching the selector exists.
+ * Uses MutationObserver, or polling when requested or unavailable. Chained
+ * selectors and resolvers always poll, as mutations inside shadow roots and
+ * iframes are not observed.
+ * @param selector CSS selector, chained selector or resolver function for the element
+ * @param options Wait options
+ * @param signal Optional AbortSignal to stop waiting early
+ * @returns The element, or null on timeout or abort; rejects if a resolver throws
+ */
+export function waitForElement(
+  selector: ElementTarget,
+  options: WaitOptions = {},
+  signal?: AbortSignal,
+): Promise<HTMLElement | null> {
+  const query = () => resolveElement(selector)
+  let found: HTMLElement | null
+  try {
+    found = query()
+  } catch (error) {
+    return Promise.reject(error)
+  }
+  if (found || signal?.aborted) return Promise.resolve(found)
+
+  const timeout = options.timeout ?? 3000
+  const usePolling =
+    options.strategy === 'poll' ||
+    typeof MutationObserver === 'undefined' ||
+    typeof selector === 'function' ||
+    selector.includes(SELECTOR_CHAIN)
+
+  return new Promise((resolve, reject) => {
+    let observer: MutationObserver | undefined
+    let intervalId: ReturnType<typeof setInterval> | undefined
+    const cleanup = () => {
+      observer?.disconnect()
+      clearInterval(intervalId)
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abort)
+    }
+    const done = (el: HTMLElement | null) => {
+      cleanup()
+      resolve(el)
+    }
+    const check = (last = false) => {
+      let el: HTMLElement | null
+      try {
+        el = query()
+      } catch (error) {
+        // A throwing resolver ends the wait
+        cleanup()
+        reject(error)
+        return
+      }
+      if (el || last) done(el)
+    }
+    const abort = () => done(null)
+    const timeoutId = setTimeout(() => check(true), timeout)
+    signal?.addEventListener('abort', abort, { once: true })
+
+    if (usePolling) {
+      intervalId = setInterval(() => check(), options.interval ?? 100)
+    } else {
+      observer = new MutationObserver(() => check())
+      observer.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+      })
+    }
+  })
+}
+
+/**
+ * Wait until scrolling settles: on `scrollend` where supported, or once the
+ * element has kept its position for a few frames.
+ * @param el Element being scrolled into view
+ * @param signal Optional AbortSignal to stop waiting early
+ * @param timeout Max time to wait in ms (default: 1000)
+ */
+export function waitForScrollEnd(
+  el: Element,
+  signal?: AbortSignal,
+  timeout = 1000,
+): Promise<void> {
+  if (signal?.aborted) return Promise.resolve()
+  return new Promise((resolve) => {
+    let frame = 0
+    let stableFrames = 0
+    let last = getViewportRect(el)
+    const done = () => {
+      cancelAnimationFrame(frame)
+      clearTimeout(timeoutId)
+      window.removeEventListener('scrollend', done, true)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const check = () => {
+      const rect = getViewportRect(el)
+      stableFrames =
+        rect.top === last.top && rect.left === last.left ? stableFrames + 1 : 0
+      last = rect
+      if (stableFrames >= 5) done()
+      else frame = requestAnimationFrame(check)
+    }
+    const timeoutId = setTimeout(done, timeout)
+    // Capture scrollend of nested scroll containers too
+    window.addEventListener('scrollend', done, true)
+    signal?.addEventListener('abort', done, { once: true })
+    frame = requestAnimationFrame(check)
+  })
+}
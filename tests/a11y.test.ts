@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FlowManager, Pointer } from '../src'
+
+describe('Pointer accessibility', () => {
+  let pointer: Pointer
+  let target: HTMLButtonElement
+  beforeEach(() => {
+    target = document.createElement('button')
+    target.setAttribute('aria-describedby', 'hint')
+    document.body.append(target)
+  })
+  afterEach(() => {
+    pointer.destroy()
+    target.remove()
+  })
+
+  function getNote() {
+    return (pointer as any).shadowRoot.querySelector('.note') as HTMLElement
+  }
+
+  it('describes the target with the note', () => {
+    pointer = new Pointer({ animationSpeed: 0 })
+    pointer.moveToElement(target, {
+      title: 'Invite',
+      body: 'Add your team',
+      buttons: [{ action: 'next' }],
+    })
+    const note = getNote()
+    expect(note.getAttribute('role')).toBe('dialog')
+    expect(note.getAttribute('aria-labelledby')).toBe('note-title')
+    expect(note.getAttribute('aria-describedby')).toBe('note-body')
+
+    const [existing, id] = target.getAttribute('aria-describedby')!.split(' ')
+    expect(existing).toBe('hint')
+    expect(document.querySelector(`#${id}`)?.textContent).toBe(
+      'Invite Add your team',
+    )
+
+    pointer.hide()
+    expect(target.getAttribute('aria-describedby')).toBe('hint')
+  })
+
+  it('traps focus inside the note', () => {
+    pointer = new Pointer({ focusTrap: true })
+    pointer.showNote({ body: 'Hi', buttons: [{ action: 'back' }, {}] })
+    const note = getNote()
+    expect(note.getAttribute('aria-modal')).toBe('true')
+    const [back, next] = Array.from(note.querySelectorAll('button'))
+    const root = (pointer as any).shadowRoot as ShadowRoot
+    const tab = (shiftKey = false) =>
+      (root.activeElement as HTMLElement).dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'Tab', shiftKey, bubbles: true }),
+      )
+
+    tab()
+    expect(root.activeElement).toBe(back)
+    tab()
+    expect(root.activeElement).toBe(next)
+    tab()
+    expect(root.activeElement).toBe(note)
+    tab(true)
+    expect(root.activeElement).toBe(next)
+  })
+})
+
+describe('Flow accessibility', () => {
+  let trigger: HTMLButtonElement
+  let btn: HTMLDivElement
+  beforeEach(() => {
+    trigger = document.createElement('button')
+    btn = document.createElement('div')
+    btn.id = 'a11y-target'
+    document.body.append(trigger, btn)
+  })
+  afterEach(() => {
+    trigger.remove()
+    btn.remove()
+  })
+
+  const steps = [
+    { element: '#a11y-target', note: 'One' },
+    { element: '#a11y-target', note: 'Two' },
+  ]
+
+  it('announces steps and uses custom key bindings', () => {
+    const flow = new FlowManager(
+      {},
+      {
+        persist: false,
+        keyBindings: { next: ['n'], stop: ['q'] },
+        announce: ({ index }) => `Schritt ${index + 1}`,
+      },
+    )
+    flow.start(steps)
+    const live = (flow as any).pointer.liveEl as HTMLElement
+    expect(live.textContent).toBe('Schritt 1')
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }))
+    expect(flow.currentStep).toBe(0)
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'n' }))
+    expect(flow.currentStep).toBe(1)
+    expect(live.textContent).toBe('Schritt 2')
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'q' }))
+    expect(flow.status).toBe('dismissed')
+    flow.destroy()
+  })
+
+  it('restores focus when the flow stops', () => {
+    trigger.focus()
+    const flow = new FlowManager({}, { persist: false })
+    flow.start(steps)
+    ;(flow as any).pointer.noteEl.focus()
+    expect(document.activeElement).not.toBe(trigger)
+    flow.stop()
+    expect(document.activeElement).toBe(trigger)
+    flow.destroy()
+  })
+})
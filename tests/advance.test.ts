@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FlowManager } from '../src'
+
+describe('Advancing steps', () => {
+  let input: HTMLInputElement
+  let button: HTMLButtonElement
+  let flow: FlowManager
+  beforeEach(() => {
+    input = document.createElement('input')
+    input.id = 'team-name'
+    button = document.createElement('button')
+    button.id = 'menu'
+    document.body.append(input, button)
+  })
+  afterEach(() => {
+    flow.destroy()
+    vi.useRealTimers()
+    document.body.innerHTML = ''
+  })
+
+  function type(value: string) {
+    input.value = value
+    input.dispatchEvent(new Event('input'))
+  }
+
+  it('advances when the input value matches', () => {
+    flow = new FlowManager({}, { persist: false })
+    flow.start([
+      {
+        element: '#team-name',
+        note: 'Name your team',
+        advanceOn: { input: /\S{3}/ },
+      },
+      { element: '#menu', note: 'Open the menu' },
+    ])
+    input.click()
+    type('ab')
+    expect(flow.currentStep).toBe(0)
+    type('abc')
+    expect(flow.currentStep).toBe(1)
+    button.click()
+    expect(flow.status).toBe('completed')
+  })
+
+  it('supports custom events, delays and manual steps', () => {
+    vi.useFakeTimers()
+    flow = new FlowManager({}, { persist: false, advanceOn: 'manual' })
+    flow.start([
+      { element: '#menu', note: 'One', advanceOn: { custom: 'menu-opened' } },
+      { element: '#menu', note: 'Two', advanceOn: { delay: 1000 } },
+      { element: '#menu', note: 'Three' },
+    ])
+    window.dispatchEvent(new CustomEvent('menu-opened'))
+    expect(flow.currentStep).toBe(1)
+    vi.advanceTimersByTime(1000)
+    expect(flow.currentStep).toBe(2)
+    button.click()
+    expect(flow.currentStep).toBe(2)
+  })
+
+  it('removes listeners when going back or stopping', () => {
+    flow = new FlowManager({}, { persist: false })
+    flow.start([
+      { element: '#menu', note: 'One' },
+      { element: '#team-name', note: 'Two' },
+    ])
+    const next = vi.fn()
+    flow.on('next', next)
+    button.click()
+    expect(flow.currentStep).toBe(1)
+    flow.back()
+    expect(flow.currentStep).toBe(0)
+    // Only the listener of the step shown again is left
+    input.click()
+    expect(flow.currentStep).toBe(0)
+    flow.stop()
+    button.click()
+    expect(next).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Pointer } from '../src'
+import { pathPoint, resolveEasing } from '../src/animation'
+
+describe('Easing and paths', () => {
+  it('resolves presets and custom easings', () => {
+    for (const name of ['linear', 'ease', 'cubic', 'spring'] as const) {
+      const ease = resolveEasing(name)
+      expect(ease(0)).toBeCloseTo(0)
+      expect(ease(1)).toBeCloseTo(1)
+    }
+    const custom = (t: number) => t * t
+    expect(resolveEasing(custom)).toBe(custom)
+  })
+
+  it('starts and ends every path at its endpoints', () => {
+    const from = { x: 0, y: 100 }
+    const to = { x: 100, y: 100 }
+    for (const mode of ['straight', 'arc', 'curve'] as const) {
+      expect(pathPoint(from, to, 0, mode)).toEqual(from)
+      const end = pathPoint(from, to, 1, mode)
+      expect(end.x).toBeCloseTo(100)
+      expect(end.y).toBeCloseTo(100)
+    }
+    expect(pathPoint(from, to, 0.5, 'straight')).toEqual({ x: 50, y: 100 })
+    // Curved paths bow upwards
+    expect(pathPoint(from, to, 0.5, 'arc').y).toBeLessThan(100)
+    expect(pathPoint(from, to, 0.5, 'curve').y).toBeLessThan(100)
+  })
+})
+
+describe('Pointer animation', () => {
+  let pointer: Pointer
+  let target: HTMLButtonElement
+  beforeEach(() => {
+    target = document.createElement('button')
+    document.body.append(target)
+    vi.spyOn(target, 'getBoundingClientRect').mockReturnValue({
+      top: 100,
+      bottom: 120,
+      left: 100,
+      right: 200,
+    } as DOMRect)
+  })
+  afterEach(() => {
+    pointer.destroy()
+    target.remove()
+    vi.unstubAllGlobals()
+  })
+
+  function getPointerEl() {
+    return (pointer as any).shadowRoot.querySelector('.pointer') as HTMLElement
+  }
+
+  it('resolves once the pointer has arrived', async () => {
+    pointer = new Pointer({
+      pointerSize: 20,
+      animationSpeed: 50,
+      path: 'curve',
+      easing: 'spring',
+      clickEffect: true,
+    })
+    await pointer.moveToElement(target, 'Hello')
+    expect(getPointerEl().style.left).toBe('180px')
+    expect(getPointerEl().style.top).toBe('128px')
+    expect(getPointerEl().querySelector('.pointer-ripple')).not.toBeNull()
+  })
+
+  it('moves instantly when reduced motion is requested', async () => {
+    vi.stubGlobal(
+      'matchMedia',
+      vi.fn(() => ({ matches: true })),
+    )
+    pointer = new Pointer({
+      pointerSize: 20,
+      animationSpeed: 10_000,
+      clickEffect: true,
+    })
+    await pointer.moveToElement(target, 'Hello')
+    expect(getPointerEl().style.left).toBe('180px')
+    expect(getPointerEl().querySelector('.pointer-ripple')).toBeNull()
+  })
+})
+
+describe('Pointer movement queue', () => {
+  let pointer: Pointer
+  afterEach(() => {
+    pointer.destroy()
+  })
+
+  function getPointerEl() {
+    return (pointer as any).shadowRoot.querySelector('.pointer') as HTMLElement
+  }
+
+  it('cancels the current movement by default', async () => {
+    pointer = new Pointer({ animationSpeed: 50 })
+    const first = pointer.moveTo(10, 10)
+    const second = pointer.moveTo(20, 30)
+    expect(await first).toBe(false)
+    expect(await second).toBe(true)
+    expect(getPointerEl().style.left).toBe('20px')
+    expect(getPointerEl().style.top).toBe('30px')
+  })
+
+  it('runs movements in order with the queue policy', async () => {
+    pointer = new Pointer({ animationSpeed: 20, movePolicy: 'queue' })
+    const arrived: number[] = []
+    const first = pointer.moveTo(10, 10).then(() => arrived.push(1))
+    const second = pointer.moveTo(20, 30).then(() => arrived.push(2))
+    await Promise.all([first, second])
+    expect(arrived).toEqual([1, 2])
+    expect(getPointerEl().style.left).toBe('20px')
+    expect(getPointerEl().style.top).toBe('30px')
+  })
+
+  it('keeps the queue going after a failed movement and clears it on hide', async () => {
+    pointer = new Pointer({ animationSpeed: 20, movePolicy: 'queue' })
+    const failed = pointer.moveToElement(null as any)
+    const next = pointer.moveTo(10, 10)
+    await expect(failed).rejects.toThrow()
+    expect(await next).toBe(true)
+    expect(getPointerEl().style.left).toBe('10px')
+
+    const queued = [pointer.moveTo(20, 20), pointer.moveTo(30, 30)]
+    expect(await pointer.hide()).toBe(true)
+    expect(await Promise.all(queued)).toEqual([false, false])
+    expect(getPointerEl().style.display).toBe('none')
+  })
+
+  it('stops when the signal aborts', async () => {
+    pointer = new Pointer({ animationSpeed: 1000 })
+    const controller = new AbortController()
+    const move = pointer.moveTo(10, 10, { signal: controller.signal })
+    controller.abort()
+    expect(await move).toBe(false)
+    expect(getPointerEl().style.left).not.toBe('10px')
+    // Live repositioning works again
+    expect((pointer as any).animating).toBe(false)
+  })
+})
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Annotations, FlowManager } from '../src'
+
+describe('Annotations', () => {
+  let filter: HTMLDivElement
+  let chart: HTMLDivElement
+  beforeEach(() => {
+    filter = document.createElement('div')
+    filter.id = 'filter'
+    chart = document.createElement('div')
+    chart.id = 'chart'
+    document.body.append(filter, chart)
+    vi.spyOn(filter, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, 0, 100, 40),
+    )
+    vi.spyOn(chart, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(300, -20, 200, 80),
+    )
+  })
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  function getRoot(host: string) {
+    return document.querySelector(host)!.shadowRoot!
+  }
+
+  it('shows several markers with connectors in one container', () => {
+    const annotations = new Annotations()
+    annotations.add([
+      { id: 'filter', element: '#filter', note: 'Filter', connectTo: 'chart' },
+      { id: 'chart', element: '#chart', note: 'Chart', color: '#f00' },
+    ])
+    expect(document.querySelectorAll('.pointerjs-annotations')).toHaveLength(1)
+    const root = getRoot('.pointerjs-annotations')
+    expect(root.querySelectorAll('[part="marker"]')).toHaveLength(2)
+    const [line] = Array.from(root.querySelectorAll('[part="connector"]'))
+    // From the right edge of the filter to the left edge of the chart
+    expect(line.getAttribute('d')).toBe('M100 20L300 20')
+
+    annotations.update('chart', { note: 'Sales' })
+    const notes = root.querySelectorAll('[part="note"]')
+    expect(notes[1].textContent).toBe('Sales')
+
+    annotations.remove('chart')
+    expect(root.querySelectorAll('[part="marker"]')).toHaveLength(1)
+    expect(root.querySelectorAll('[part="connector"]')).toHaveLength(0)
+    annotations.destroy()
+    expect(document.querySelector('.pointerjs-annotations')).toBeNull()
+  })
+
+  it('shows step annotations above the overlay until the step is left', async () => {
+    const flow = new FlowManager({ overlay: true }, { persist: false })
+    flow.start([
+      {
+        element: '#filter',
+        note: 'Filter',
+        annotations: [
+          {
+            id: 'chart',
+            element: '#chart',
+            note: 'Updates',
+            connectTo: 'pointer',
+          },
+        ],
+      },
+      { element: '#chart', note: 'Chart' },
+    ])
+    // In the pointer's container, not a layer of their own below its overlay
+    expect(document.querySelector('.pointerjs-annotations')).toBeNull()
+    const layer = getRoot('.pointerjs').querySelector('.annotations')!
+    expect(layer.getAttribute('exportparts')).toContain('marker')
+    const root = layer.shadowRoot!
+    expect(root.querySelectorAll('[part="marker"]')).toHaveLength(1)
+    // Connected to the element the main pointer points at
+    await vi.waitFor(() =>
+      expect(root.querySelector('[part="connector"]')?.getAttribute('d')).toBe(
+        'M300 20L100 20',
+      ),
+    )
+    flow.next()
+    expect(root.querySelectorAll('[part="marker"]')).toHaveLength(0)
+    flow.destroy()
+    expect(document.querySelector('.pointerjs')).toBeNull()
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FlowManager, type OnboardingStep } from '../src'
+
+describe('Branching steps', () => {
+  let flow: FlowManager
+  beforeEach(() => {
+    for (const id of ['a', 'b', 'c', 'd']) {
+      const el = document.createElement('button')
+      el.id = id
+      document.body.append(el)
+    }
+  })
+  afterEach(() => {
+    flow.stop()
+    document.body.innerHTML = ''
+  })
+
+  function shownSteps() {
+    const shown: Array<string | undefined> = []
+    flow.on('stepShown', ({ step }) => shown.push(step.id))
+    return shown
+  }
+
+  it('skips steps whose condition fails', async () => {
+    flow = new FlowManager({}, { persist: false, data: { role: 'member' } })
+    const shown = shownSteps()
+    const skipped = vi.fn()
+    flow.on('stepSkipped', skipped)
+    flow.start([
+      { id: 'a', element: '#a', note: 'A' },
+      {
+        id: 'b',
+        element: '#b',
+        note: 'Admins only',
+        when: ({ data }) => data.role === 'admin',
+      },
+      {
+        id: 'c',
+        element: '#c',
+        note: 'C',
+        when: () => Promise.resolve(true),
+      },
+    ])
+    flow.next()
+    expect(skipped).toHaveBeenCalledWith(
+      expect.objectContaining({ index: 1, reason: 'condition' }),
+    )
+    await vi.waitFor(() => expect(shown).toEqual(['a', 'c']))
+  })
+
+  it('follows next and goes back through history', () => {
+    flow = new FlowManager({}, { persist: false, data: { setupDone: true } })
+    const shown = shownSteps()
+    const steps: OnboardingStep[] = [
+      {
+        id: 'a',
+        element: '#a',
+        note: 'A',
+        next: ({ data }) => (data.setupDone ? 'c' : undefined),
+      },
+      { id: 'b', element: '#b', note: 'Setup' },
+      { id: 'c', element: '#c', note: 'C', next: 'a' },
+      { id: 'd', element: '#d', note: 'D' },
+    ]
+    flow.start(steps)
+    flow.next()
+    flow.back()
+    flow.next()
+    flow.next()
+    expect(shown).toEqual(['a', 'c', 'a', 'c', 'a'])
+    flow.back()
+    flow.back()
+    expect(shown.slice(5)).toEqual(['c', 'a'])
+    expect(flow.currentStep).toBe(0)
+  })
+
+  it('ends the flow when next returns null', async () => {
+    flow = new FlowManager({}, { persist: false })
+    flow.start([
+      { element: '#a', note: 'A', next: () => null },
+      { element: '#b', note: 'B' },
+    ])
+    flow.next()
+    await expect(flow.finished).resolves.toEqual({
+      status: 'completed',
+      step: 2,
+    })
+  })
+})
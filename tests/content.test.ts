@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Pointer, sanitizeHTML } from '../src'
+import { renderNote, renderProgress } from '../src/content'
+import { FlowManager } from '../src/flow'
+
+describe('sanitizeHTML', () => {
+  function sanitize(html: string) {
+    const host = document.createElement('div')
+    host.append(sanitizeHTML(html))
+    return host.innerHTML
+  }
+
+  it('removes scripts, handlers and unsafe URLs', () => {
+    const html = sanitize(
+      '<b onclick="alert(1)">Hi</b><script>alert(1)</script>' +
+        '<a href=" javascript:alert(1)">x</a><img src="data:image/png;base64,AA">',
+    )
+    expect(html).toBe('<b>Hi</b><a>x</a><img src="data:image/png;base64,AA">')
+  })
+
+  it('keeps only allowed tags and attributes', () => {
+    expect(
+      sanitize(
+        '<svg><a><animate attributeName="href" values="javascript:alert(1)"/>' +
+          '<text>x</text></a></svg><custom-tag style="position:fixed">Hi</custom-tag>',
+      ),
+    ).toBe('Hi')
+    const html = sanitize(
+      '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>' +
+        '<p class="tip" data-x="1" aria-label="Tip">Ok</p>',
+    )
+    expect(html).not.toContain('onerror')
+    expect(html).toContain('<p class="tip" aria-label="Tip">Ok</p>')
+  })
+})
+
+describe('renderNote', () => {
+  it('renders text, nodes and render functions', () => {
+    const onAction = vi.fn()
+    expect(renderNote('Hello', false, onAction).textContent).toBe('Hello')
+    const node = document.createElement('em')
+    expect(renderNote(node, false, onAction)).toBe(node)
+    expect(renderNote(() => 'Later', false, onAction).textContent).toBe('Later')
+  })
+
+  it('shows an empty note when a render function throws', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const target = document.createElement('button')
+    document.body.append(target)
+    const pointer = new Pointer({ animationSpeed: 0 })
+    const moved = pointer.moveToElement(target, () => {
+      throw new Error('Not ready')
+    })
+    await expect(moved).resolves.toBe(true)
+    const note = (pointer as any).shadowRoot.querySelector('.note')
+    expect(note.textContent).toBe('')
+    expect(warn).toHaveBeenCalledWith(
+      '[PointerJS] Rendering the note failed.',
+      expect.any(Error),
+    )
+    pointer.destroy()
+    target.remove()
+    warn.mockRestore()
+  })
+
+  it('renders rich notes with buttons', () => {
+    const onAction = vi.fn()
+    const custom = vi.fn()
+    const host = document.createElement('div')
+    host.append(
+      renderNote(
+        {
+          title: 'Welcome',
+          html: '<i>Hi</i><img src=x onerror="alert(1)">',
+          image: { src: '/tour.png', alt: 'Tour' },
+          buttons: [
+            { action: 'back' },
+            { label: 'Help', action: custom },
+            { label: 'Continue' },
+          ],
+        },
+        sanitizeHTML,
+        onAction,
+      ),
+    )
+    expect(host.querySelector('.note-title')?.textContent).toBe('Welcome')
+    expect(host.querySelector('.note-body')?.innerHTML).toBe(
+      '<i>Hi</i><img src="x">',
+    )
+    expect(host.querySelector('img')?.alt).toBe('Tour')
+    const buttons = host.querySelectorAll('button')
+    expect(Array.from(buttons, (b) => b.textContent)).toEqual([
+      'Back',
+      'Help',
+      'Continue',
+    ])
+    buttons[0].click()
+    buttons[1].click()
+    buttons[2].click()
+    expect(onAction.mock.calls).toEqual([['back'], ['next']])
+    expect(custom).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('renderProgress', () => {
+  it('renders text, dots and bar with ARIA semantics', () => {
+    const text = renderProgress({ current: 2, total: 5, style: 'text' })
+    expect(text.textContent).toBe('2 of 5')
+    expect(text.getAttribute('role')).toBe('progressbar')
+    expect(text.getAttribute('aria-valuenow')).toBe('2')
+    expect(text.getAttribute('aria-valuemax')).toBe('5')
+    expect(text.getAttribute('aria-valuetext')).toBe('Step 2 of 5')
+
+    const dots = renderProgress({ current: 2, total: 3, style: 'dots' })
+    expect(dots.children).toHaveLength(3)
+    expect(dots.children[1].className).toContain('is-active')
+
+    const bar = renderProgress({ current: 1, total: 4, style: 'bar' })
+    expect((bar.firstChild as HTMLElement).style.width).toBe('25%')
+  })
+})
+
+describe('Note buttons', () => {
+  let btn: HTMLButtonElement
+  let flow: FlowManager
+  beforeEach(() => {
+    btn = document.createElement('button')
+    btn.id = 'invite-btn'
+    document.body.append(btn)
+    flow = new FlowManager({}, { persist: false })
+  })
+  afterEach(() => {
+    flow.stop()
+    btn.remove()
+  })
+
+  it('navigate the flow', () => {
+    const log: string[] = []
+    flow.on('next', ({ index }) => log.push(`next:${index}`))
+    flow.on('back', ({ index }) => log.push(`back:${index}`))
+    flow.on('complete', () => log.push('complete'))
+    flow.start([
+      { element: '#invite-btn', note: { body: 'One', buttons: [{}] } },
+      {
+        element: '#invite-btn',
+        note: {
+          body: 'Two',
+          buttons: [{ action: 'back' }, { action: 'done' }],
+        },
+      },
+    ])
+    const pointer = (flow as any).pointer
+    pointer.events.emit('action', 'next')
+    pointer.events.emit('action', 'back')
+    pointer.events.emit('action', 'next')
+    pointer.events.emit('action', 'done')
+    expect(log).toEqual(['next:0', 'back:1', 'next:0', 'complete'])
+  })
+
+  it('shows progress when enabled', () => {
+    flow = new FlowManager({}, { persist: false, progress: 'text' })
+    flow.start([
+      { element: '#invite-btn', note: 'One' },
+      { element: '#invite-btn', note: 'Two' },
+    ])
+    const noteEl = (flow as any).pointer.noteEl as HTMLElement
+    expect(noteEl.querySelector('[role="progressbar"]')?.textContent).toBe(
+      '1 of 2',
+    )
+    btn.click()
+    expect(noteEl.querySelector('[role="progressbar"]')?.textContent).toBe(
+      '2 of 2',
+    )
+  })
+})
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  FlowManager,
+  getViewportRect,
+  queryDeep,
+  scrollIntoViewIfNeeded,
+} from '../src'
+
+function mockRect(
+  el: Element,
+  rect: { left: number; top: number; width: number; height: number },
+) {
+  el.getBoundingClientRect = () =>
+    new DOMRect(rect.left, rect.top, rect.width, rect.height)
+}
+
+describe('Deep targets', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('queries through shadow roots and iframes', () => {
+    const host = document.createElement('my-app')
+    const button = document.createElement('button')
+    button.className = 'save'
+    host.attachShadow({ mode: 'open' }).append(button)
+    const frame = document.createElement('iframe')
+    frame.id = 'editor'
+    document.body.append(host, frame)
+    const toolbar = frame.contentDocument!.createElement('div')
+    toolbar.className = 'toolbar'
+    frame.contentDocument!.body.append(toolbar)
+
+    expect(queryDeep('my-app >>> .save')).toBe(button)
+    expect(queryDeep('iframe#editor >>> .toolbar')).toBe(toolbar)
+    expect(queryDeep('my-app >>> .missing')).toBeNull()
+    expect(queryDeep('.save')).toBeNull()
+  })
+
+  it('offsets rects of elements inside iframes', () => {
+    const frame = document.createElement('iframe')
+    document.body.append(frame)
+    const el = frame.contentDocument!.createElement('div')
+    frame.contentDocument!.body.append(el)
+    mockRect(frame, { left: 100, top: 50, width: 400, height: 300 })
+    mockRect(el, { left: 10, top: 20, width: 30, height: 40 })
+
+    const rect = getViewportRect(el)
+    expect([rect.x, rect.y, rect.width, rect.height]).toEqual([110, 70, 30, 40])
+  })
+
+  it('scrolls containers to reveal the element', () => {
+    const panel = document.createElement('div')
+    panel.style.overflow = 'auto'
+    const el = document.createElement('div')
+    panel.append(el)
+    document.body.append(panel)
+    Object.defineProperties(panel, {
+      clientWidth: { value: 300 },
+      clientHeight: { value: 200 },
+      scrollWidth: { value: 300 },
+      scrollHeight: { value: 1000 },
+    })
+    const scrollBy = vi.fn()
+    panel.scrollBy = scrollBy
+    mockRect(panel, { left: 0, top: 0, width: 300, height: 200 })
+    mockRect(el, { left: 0, top: 500, width: 100, height: 20 })
+
+    expect(scrollIntoViewIfNeeded(el)).toBe(true)
+    // Keeps a margin below the element, capped to the room in the container
+    expect(scrollBy).toHaveBeenCalledWith({
+      left: 0,
+      top: 410,
+      behavior: 'auto',
+    })
+
+    mockRect(el, { left: 0, top: 50, width: 100, height: 20 })
+    scrollBy.mockClear()
+    expect(scrollIntoViewIfNeeded(el)).toBe(false)
+    expect(scrollBy).not.toHaveBeenCalled()
+  })
+
+  it('resolves step elements with a function', () => {
+    const host = document.createElement('div')
+    const target = document.createElement('span')
+    host.attachShadow({ mode: 'open' }).append(target)
+    document.body.append(host)
+    const flow = new FlowManager({}, { persist: false })
+    const shown = vi.fn()
+    flow.on('stepShown', shown)
+    flow.start([
+      { element: () => host.shadowRoot!.querySelector('span'), note: 'Hi' },
+    ])
+    expect(shown).toHaveBeenCalledWith(
+      expect.objectContaining({ element: target }),
+    )
+    flow.destroy()
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FlowManager } from '../src/flow'
+import type { OnboardingStep } from '../src'
+
+describe('Flow events', () => {
+  let btn: HTMLButtonElement
+  let profile: HTMLButtonElement
+  let flow: FlowManager
+  beforeEach(() => {
+    btn = document.createElement('button')
+    btn.id = 'invite-btn'
+    document.body.append(btn)
+    profile = document.createElement('button')
+    profile.id = 'profile'
+    document.body.append(profile)
+    flow = new FlowManager({}, { persist: false })
+  })
+  afterEach(() => {
+    flow.stop()
+    btn.remove()
+    profile.remove()
+  })
+
+  it('emits lifecycle events in order', () => {
+    const log: string[] = []
+    flow.on('stepShown', ({ index }) => log.push(`shown:${index}`))
+    flow.on('stepSkipped', ({ index, reason }) =>
+      log.push(`skipped:${index}:${reason}`),
+    )
+    flow.on('next', ({ index }) => log.push(`next:${index}`))
+    flow.on('complete', () => log.push('complete'))
+    flow.start([
+      { element: '#invite-btn', note: 'Invite!' },
+      { element: '#not-exist', note: 'Missing!', wait: false },
+      { element: '#profile', note: 'Profile!' },
+    ])
+    btn.click()
+    profile.click()
+    expect(log).toEqual([
+      'shown:0',
+      'next:0',
+      'skipped:1:notFound',
+      'shown:2',
+      'next:2',
+      'complete',
+    ])
+  })
+
+  it('emits dismiss on Escape and calls onLeave', () => {
+    const onLeave = vi.fn()
+    const dismiss = vi.fn()
+    flow.on('dismiss', dismiss)
+    flow.start([{ element: '#invite-btn', note: 'Invite!', onLeave }])
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(onLeave).toHaveBeenCalledTimes(1)
+    expect(dismiss).toHaveBeenCalledWith(expect.objectContaining({ index: 0 }))
+  })
+
+  it('waits for async onBeforeShow and skips vetoed steps', async () => {
+    const shown = vi.fn()
+    const onAfterShow = vi.fn()
+    flow.on('stepShown', shown)
+    const steps: OnboardingStep[] = [
+      {
+        element: '#invite-btn',
+        note: 'Invite!',
+        onBeforeShow: () => Promise.resolve(false),
+      },
+      {
+        element: '#profile',
+        note: 'Profile!',
+        onBeforeShow: () => Promise.resolve(true),
+        onAfterShow,
+      },
+    ]
+    flow.start(steps)
+    expect(shown).not.toHaveBeenCalled()
+    await vi.waitFor(() => expect(shown).toHaveBeenCalledTimes(1))
+    expect(shown.mock.calls[0][0].element).toBe(profile)
+    expect(onAfterShow).toHaveBeenCalledWith(
+      expect.objectContaining({ index: 1, total: 2 }),
+    )
+  })
+
+  it('keeps advancing when onAfterShow or onLeave throw', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const shown = vi.fn()
+    flow.on('stepShown', shown)
+    const fail = () => {
+      throw new Error('hook')
+    }
+    flow.start([
+      { element: '#invite-btn', note: 'Invite!', onAfterShow: fail },
+      { element: '#profile', note: 'Profile!', onLeave: fail },
+    ])
+    // Clicks on the target still advance
+    btn.click()
+    expect(flow.currentStep).toBe(1)
+    expect(shown).toHaveBeenCalledTimes(2)
+    flow.back()
+    expect(flow.currentStep).toBe(0)
+    expect(warn).toHaveBeenCalledWith(
+      '[PointerJS] onAfterShow failed (step 1).',
+      expect.any(Error),
+    )
+    expect(warn).toHaveBeenCalledWith(
+      '[PointerJS] onLeave failed (step 2).',
+      expect.any(Error),
+    )
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryStorage, Hints } from '../src'
+
+describe('Hints', () => {
+  let btn: HTMLButtonElement
+  let hints: Hints
+  beforeEach(() => {
+    btn = document.createElement('button')
+    btn.id = 'export-btn'
+    document.body.append(btn)
+  })
+  afterEach(() => {
+    hints.destroy()
+    btn.remove()
+  })
+
+  function getRoot() {
+    return (hints as any).shadowRoot as ShadowRoot
+  }
+
+  it('shows a beacon per hint and opens its note on click', () => {
+    hints = new Hints({ persist: false })
+    const onOpen = vi.fn()
+    hints.on('open', onOpen)
+    hints.add([
+      { id: 'export', element: '#export-btn', note: 'Export data' },
+      { id: 'missing', element: '#missing', note: 'Nope' },
+    ])
+    const beacons = getRoot().querySelectorAll<HTMLElement>('.beacon')
+    expect(beacons).toHaveLength(2)
+    expect(beacons[1].style.display).toBe('none')
+
+    beacons[0].click()
+    const note = getRoot().querySelector<HTMLElement>('.note')!
+    expect(note.style.display).toBe('block')
+    expect(note.textContent).toContain('Export data')
+    expect(beacons[0].getAttribute('aria-expanded')).toBe('true')
+    expect(onOpen).toHaveBeenCalledWith('export')
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(note.style.display).toBe('none')
+    expect(beacons[0].getAttribute('aria-expanded')).toBe('false')
+  })
+
+  it('persists dismissed hints', () => {
+    const storage = createMemoryStorage()
+    hints = new Hints({ persist: storage })
+    const onDismiss = vi.fn()
+    hints.on('dismiss', onDismiss)
+    hints.add({ id: 'export', element: '#export-btn', note: 'Export data' })
+    hints.open('export')
+    getRoot().querySelector<HTMLElement>('.note-button')!.click()
+    expect(onDismiss).toHaveBeenCalledWith('export')
+    expect(getRoot().querySelector('.beacon')).toBeNull()
+    hints.destroy()
+
+    hints = new Hints({ persist: storage })
+    expect(hints.isDismissed('export')).toBe(true)
+    hints.add({ id: 'export', element: '#export-btn', note: 'Export data' })
+    expect(getRoot().querySelector('.beacon')).toBeNull()
+
+    hints.reset('export')
+    hints.add({ id: 'export', element: '#export-btn', note: 'Export data' })
+    expect(getRoot().querySelector('.beacon')).not.toBeNull()
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { computePlacement, formatMessage, registerLocale } from '../src'
+import { renderNote, renderProgress } from '../src/content'
+import { resolveMessages } from '../src/i18n'
+
+describe('Messages', () => {
+  it('interpolates placeholders', () => {
+    expect(
+      formatMessage('Step {current} of {total}', { current: 2, total: 5 }),
+    ).toBe('Step 2 of 5')
+    expect(formatMessage('{missing} left', {})).toBe('{missing} left')
+  })
+
+  it('falls back from regional locales to the language and English', () => {
+    registerLocale('pt', { next: 'Próximo' })
+    const messages = resolveMessages('pt-BR', { back: 'Voltar' })
+    expect(messages.next).toBe('Próximo')
+    expect(messages.back).toBe('Voltar')
+    expect(messages.done).toBe('Done')
+  })
+
+  it('translates buttons and progress', () => {
+    const messages = resolveMessages(undefined, {
+      next: 'Weiter',
+      progress: '{current}/{total}',
+      progressLabel: 'Schritt {current} von {total}',
+    })
+    const note = renderNote({ buttons: [{}] }, false, () => {}, messages)
+    expect(note.textContent).toBe('Weiter')
+    const progress = renderProgress(
+      { current: 1, total: 3, style: 'text' },
+      messages,
+    )
+    expect(progress.textContent).toBe('1/3')
+    expect(progress.getAttribute('aria-valuetext')).toBe('Schritt 1 von 3')
+  })
+})
+
+describe('RTL placement', () => {
+  it('mirrors alignment and the pointer', () => {
+    const result = computePlacement({
+      target: { x: 400, y: 300, width: 100, height: 40 },
+      note: { width: 200, height: 100 },
+      viewport: { width: 1000, height: 800 },
+      pointerSize: 20,
+      rtl: true,
+    })
+    expect(result.pointer).toEqual({ x: 400, y: 348 })
+    expect(result.note.x).toBe(400)
+    expect(result.flipX).toBe(true)
+  })
+})
@@ -1,5 +1,10 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { Pointer, startOnboarding, type OnboardingStep } from '../src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  FlowManager,
+  Pointer,
+  startOnboarding,
+  type OnboardingStep,
+} from '../src'
 
 describe('Pointer', () => {
   let pointer: Pointer
@@ -68,13 +73,104 @@ describe('startOnboarding', () => {
 
   it('skips step if element not found', () => {
     const steps: OnboardingStep[] = [
-      { element: '#not-exist', note: 'Missing!' },
+      { element: '#not-exist', note: 'Missing!', wait: false },
       { element: '#invite-btn', note: 'Invite!' },
     ]
     startOnboarding(steps)
     btn.click()
     expect(true).toBe(true)
   })
+
+  it('returns a controller for the flow', async () => {
+    const flow = startOnboarding(
+      [
+        { id: 'invite', element: '#invite-btn', note: 'Invite!' },
+        { id: 'profile', element: '#profile', note: 'Profile!' },
+      ],
+      {},
+      undefined,
+      { persist: false },
+    )
+    expect(flow).toBeInstanceOf(FlowManager)
+    expect(flow.currentStep).toBe(0)
+    flow.goTo('profile')
+    expect(flow.currentStep).toBe(1)
+    flow.back()
+    expect(flow.currentStep).toBe(0)
+    flow.next()
+    flow.next()
+    await expect(flow.finished).resolves.toEqual({
+      status: 'completed',
+      step: 2,
+    })
+  })
+
+  it('applies the concurrency policy', async () => {
+    const steps: OnboardingStep[] = [
+      { element: '#invite-btn', note: 'Invite!' },
+    ]
+    const first = startOnboarding(steps, {}, undefined, { persist: false })
+    const rejected = startOnboarding(steps, {}, undefined, {
+      persist: false,
+      concurrency: 'reject',
+    })
+    await expect(rejected.finished).resolves.toEqual({
+      status: 'cancelled',
+      step: 0,
+    })
+    const queued = startOnboarding(steps, {}, undefined, {
+      persist: false,
+      concurrency: 'queue',
+    })
+    expect(queued.status).toBe('idle')
+    first.next()
+    await first.finished
+    await vi.waitFor(() => expect(queued.status).toBe('running'))
+
+    const replacement = startOnboarding(steps, {}, undefined, {
+      persist: false,
+    })
+    expect(queued.status).toBe('cancelled')
+    expect(replacement.status).toBe('running')
+    replacement.stop()
+  })
+
+  it('keeps a restarted flow running', async () => {
+    const steps: OnboardingStep[] = [
+      { element: '#invite-btn', note: 'Invite!' },
+      { element: '#profile', note: 'Profile!' },
+    ]
+    const flow = startOnboarding(steps, {}, undefined, { persist: false })
+    flow.next()
+    flow.start(steps)
+    // The first run ended, which must not release the restarted one
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(flow.status).toBe('running')
+    expect(document.querySelector('.pointerjs')).not.toBeNull()
+    flow.stop()
+    await vi.waitFor(() =>
+      expect(document.querySelector('.pointerjs')).toBeNull(),
+    )
+  })
+
+  it('keeps listeners when a released flow runs again', async () => {
+    const steps: OnboardingStep[] = [
+      { element: '#invite-btn', note: 'Invite!' },
+    ]
+    const complete = vi.fn()
+    const flow = startOnboarding(steps, {}, undefined, { persist: false })
+    flow.on('complete', complete)
+    flow.next()
+    // Released once the run ended
+    await vi.waitFor(() =>
+      expect(document.querySelector('.pointerjs')).toBeNull(),
+    )
+    flow.start(steps)
+    flow.next()
+    expect(complete).toHaveBeenCalledTimes(2)
+    flow.destroy()
+  })
 })
 
 describe('Pointer customization', () => {
@@ -98,3 +194,45 @@ describe('Pointer customization', () => {
     expect(style?.textContent).toContain('font-size: 22px')
   })
 })
+
+describe('Pointer tracking', () => {
+  let pointer: Pointer
+  let target: HTMLButtonElement
+  let rect: Partial<DOMRect>
+  beforeEach(() => {
+    pointer = new Pointer({ pointerSize: 20 })
+    target = document.createElement('button')
+    document.body.append(target)
+    rect = { top: 100, bottom: 120, left: 100, right: 200 }
+    vi.spyOn(target, 'getBoundingClientRect').mockImplementation(
+      () => rect as DOMRect,
+    )
+  })
+  afterEach(() => {
+    pointer.destroy()
+    target.remove()
+  })
+
+  it('repositions when the viewport changes', async () => {
+    const pointerEl = (pointer as any).shadowRoot.querySelector(
+      '.pointer',
+    ) as HTMLElement
+    await pointer.moveToElement(target)
+    expect(pointerEl.style.left).toBe('180px')
+    expect(pointerEl.style.top).toBe('128px')
+
+    rect = { top: 200, bottom: 220, left: 300, right: 400 }
+    window.dispatchEvent(new Event('resize'))
+    await vi.waitFor(() => expect(pointerEl.style.left).toBe('380px'))
+    expect(pointerEl.style.top).toBe('228px')
+  })
+
+  it('stops tracking on destroy', () => {
+    const remove = vi.spyOn(window, 'removeEventListener')
+    pointer.moveToElement(target)
+    pointer.destroy()
+    expect(remove).toHaveBeenCalledWith('resize', expect.any(Function))
+    expect(remove).toHaveBeenCalledWith('scroll', expect.any(Function), true)
+    remove.mockRestore()
+  })
+})
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  parseTour,
+  stepsFromDOM,
+  TourValidationError,
+  validateTour,
+} from '../src'
+
+describe('stepsFromDOM', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('builds ordered steps from data attributes', () => {
+    document.body.innerHTML = `
+      <button id="invite" data-pointer-step data-pointer-tour="setup" data-pointer-order="2" data-pointer-note="Invite"></button>
+      <nav data-pointer-step="nav" data-pointer-tour="setup" data-pointer-order="1" data-pointer-note="Navigate"></nav>
+      <div data-pointer-step data-pointer-tour="setup" data-pointer-note="Last"></div>
+      <div data-pointer-step data-pointer-tour="other" data-pointer-note="Other"></div>
+    `
+    const steps = stepsFromDOM('setup')
+    expect(steps.map((step) => step.note)).toEqual([
+      'Navigate',
+      'Invite',
+      'Last',
+    ])
+    for (const step of steps) {
+      expect(document.querySelectorAll(step.element)).toHaveLength(1)
+    }
+    expect(steps[0]).toEqual({
+      id: 'nav',
+      element: '[data-pointer-step="nav"]',
+      note: 'Navigate',
+    })
+    expect(steps[1].element).toBe('[id="invite"]')
+    expect(stepsFromDOM()).toHaveLength(4)
+  })
+
+  it('generates unused ids and reports duplicate ones', () => {
+    document.body.innerHTML = `
+      <div data-pointer-step data-pointer-note="First"></div>
+      <div data-pointer-step="step-1" data-pointer-note="Second"></div>
+    `
+    const steps = stepsFromDOM()
+    expect(steps.map((step) => step.id)).toEqual(['step-2', 'step-1'])
+    const first = document.querySelector<HTMLElement>(steps[0].element)
+    expect(first?.dataset.pointerNote).toBe('First')
+
+    document.body.innerHTML += `<p data-pointer-step="step-1" data-pointer-note="Third"></p>`
+    expect(() => stepsFromDOM()).toThrow(
+      `[data-pointer-step="step-1"]: duplicate step id 'step-1'`,
+    )
+  })
+})
+
+describe('parseTour', () => {
+  it('parses a valid JSON tour', () => {
+    const tour = parseTour(
+      JSON.stringify({
+        id: 'setup',
+        version: 2,
+        steps: [
+          { id: 'a', element: '#a', note: 'A' },
+          {
+            element: '.b > span',
+            note: { title: 'B', buttons: [{ action: 'done' }] },
+            missing: 'center',
+          },
+        ],
+      }),
+    )
+    expect(tour.id).toBe('setup')
+    expect(tour.steps).toHaveLength(2)
+  })
+
+  it('reports every problem with a clear message', () => {
+    const issues = validateTour({
+      steps: [
+        { id: 'a', element: '#a', note: 'A', color: 'red' },
+        { id: 'a', element: '#[bad', note: { buttons: [{ action: 'jump' }] } },
+        { element: '#c' },
+      ],
+      theme: 'dark',
+    })
+    expect(issues).toEqual([
+      "tour: unknown field 'theme'",
+      "steps[0]: unknown field 'color'",
+      "steps[1].id: duplicate step id 'a'",
+      "steps[1].element: invalid CSS selector '#[bad'",
+      'steps[1].note.buttons[0].action: must be one of next, back, skip, done',
+      'steps[2].note: is required',
+    ])
+    expect(
+      validateTour({ steps: [{ element: '#a', note: 'A', next: 'missing' }] }),
+    ).toEqual(["steps[0].next: unknown step id 'missing'"])
+    expect(
+      validateTour({
+        steps: [
+          {
+            element: '#a',
+            note: 'A',
+            advanceOn: [
+              'change',
+              { delay: '1s' },
+              { url: '/a', custom: 'b' },
+              { input: '(' },
+            ],
+          },
+        ],
+      }),
+    ).toEqual([
+      'steps[0].advanceOn[1].delay: must be a number',
+      'steps[0].advanceOn[2]: must have one of event, input, appear, disappear, url, custom, delay',
+      'steps[0].advanceOn[3].input: must be a valid regular expression',
+    ])
+    expect(() => parseTour('{ not json')).toThrow(TourValidationError)
+    try {
+      parseTour({ steps: [] })
+    } catch (error) {
+      expect((error as TourValidationError).issues).toEqual([
+        'tour.steps: must be a non-empty array',
+      ])
+    }
+  })
+})
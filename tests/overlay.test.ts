@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Pointer } from '../src'
+import { Overlay } from '../src/overlay'
+
+describe('Overlay', () => {
+  let host: HTMLElement
+  let root: ShadowRoot
+  beforeEach(() => {
+    host = document.createElement('div')
+    document.body.append(host)
+    root = host.attachShadow({ mode: 'open' })
+  })
+  afterEach(() => {
+    host.remove()
+  })
+
+  it('draws a backdrop with a cutout', () => {
+    const overlay = new Overlay(root, { opacity: 0.7, radius: 0 })
+    const path = root.querySelector('path')!
+    expect(path.getAttribute('fill-opacity')).toBe('0.7')
+    expect(path.style.pointerEvents).toBe('none')
+
+    overlay.setRect({ x: 10, y: 20, width: 100, height: 50 })
+    expect(path.getAttribute('d')).toContain('M10 20H110')
+    expect(overlay.currentRect).toEqual({
+      x: 10,
+      y: 20,
+      width: 100,
+      height: 50,
+    })
+
+    overlay.setRect(null)
+    expect(path.getAttribute('d')).not.toContain('A')
+    overlay.hide()
+    expect((root.querySelector('svg') as SVGElement).style.display).toBe('none')
+    overlay.destroy()
+    expect(root.querySelector('svg')).toBeNull()
+  })
+
+  it('pads the target rect and can block clicks', () => {
+    const overlay = new Overlay(root, { padding: 4, blockClicks: true })
+    const target = document.createElement('button')
+    vi.spyOn(target, 'getBoundingClientRect').mockReturnValue({
+      left: 10,
+      top: 10,
+      width: 20,
+      height: 20,
+    } as DOMRect)
+    expect(overlay.getTargetRect(target)).toEqual({
+      x: 6,
+      y: 6,
+      width: 28,
+      height: 28,
+    })
+    expect(root.querySelector('path')!.style.pointerEvents).toBe('auto')
+    overlay.destroy()
+  })
+})
+
+describe('Pointer overlay', () => {
+  it('renders the overlay only when enabled', () => {
+    const plain = new Pointer()
+    const dimmed = new Pointer({ overlay: { opacity: 0.3 } })
+    expect((plain as any).overlay).toBeNull()
+    expect((dimmed as any).overlay).toBeInstanceOf(Overlay)
+    plain.destroy()
+    dimmed.destroy()
+  })
+})
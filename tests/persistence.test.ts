@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMemoryStorage,
+  resumeOnboarding,
+  type OnboardingStep,
+  type PersistedFlow,
+} from '../src'
+import { FlowManager } from '../src/flow'
+
+describe('Flow persistence', () => {
+  let btn: HTMLButtonElement
+  let profile: HTMLButtonElement
+  beforeEach(() => {
+    btn = document.createElement('button')
+    btn.id = 'invite-btn'
+    document.body.append(btn)
+    profile = document.createElement('button')
+    profile.id = 'profile'
+    document.body.append(profile)
+  })
+  afterEach(() => {
+    btn.remove()
+    profile.remove()
+  })
+
+  const steps: OnboardingStep[] = [
+    { element: '#invite-btn', note: 'Invite!' },
+    { element: '#profile', note: 'Profile!', url: '/profile' },
+  ]
+
+  it('records progress and clears it on completion', async () => {
+    const storage = createMemoryStorage()
+    const navigate = vi.fn()
+    const flow = new FlowManager({}, { id: 'tour', persist: storage, navigate })
+    flow.start(steps)
+    let state = JSON.parse(
+      storage.getItem('pointerjs:flow:tour')!,
+    ) as PersistedFlow
+    expect(state.id).toBe('tour')
+    expect(state.step).toBe(0)
+    expect(state.steps).toEqual(steps)
+
+    btn.click()
+    state = JSON.parse(storage.getItem('pointerjs:flow:tour')!)
+    expect(state.step).toBe(1)
+    expect(navigate).toHaveBeenCalledWith('/profile')
+
+    // Navigation resolves, then the step is shown on the new route
+    await Promise.resolve()
+    profile.click()
+    expect(storage.getItem('pointerjs:flow:tour')).toBeNull()
+  })
+
+  it('keeps the progress of flows with different ids apart', () => {
+    const storage = createMemoryStorage()
+    const first = new FlowManager({}, { id: 'first', persist: storage })
+    const second = new FlowManager({}, { id: 'second', persist: storage })
+    first.start(steps)
+    second.start(steps)
+    second.stop()
+    expect(storage.getItem('pointerjs:flow:second')).toBeNull()
+    const state = JSON.parse(storage.getItem('pointerjs:flow:first')!)
+    expect(state.id).toBe('first')
+    first.destroy()
+    second.destroy()
+  })
+
+  it('resumes a flow persisted by a previous page', () => {
+    const storage = createMemoryStorage()
+    const state: PersistedFlow = {
+      id: 'tour',
+      step: 1,
+      steps: [steps[0], { element: '#profile', note: 'Profile!' }],
+      pointerOptions: {},
+      flowOptions: {},
+    }
+    storage.setItem('pointerjs:flow:tour', JSON.stringify(state))
+    expect(resumeOnboarding({ id: 'other', persist: storage })).toBeNull()
+    const flow = resumeOnboarding({ id: 'tour', persist: storage })
+    expect(flow?.currentStep).toBe(1)
+
+    profile.click()
+    expect(storage.getItem('pointerjs:flow:tour')).toBeNull()
+    expect(flow?.status).toBe('completed')
+  })
+
+  it('skips steps whose element cannot be resolved', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = createMemoryStorage()
+    // Resolver functions are dropped when a flow is persisted
+    const resolver: OnboardingStep = { element: () => btn, note: 'Invite!' }
+    storage.setItem(
+      'pointerjs:flow:tour',
+      JSON.stringify({
+        id: 'tour',
+        step: 0,
+        steps: [resolver, { element: '#profile', note: 'Profile!' }],
+        pointerOptions: {},
+        flowOptions: {},
+      }),
+    )
+    const flow = resumeOnboarding({ id: 'tour', persist: storage })
+    expect(flow?.currentStep).toBe(1)
+
+    const failing = new FlowManager({}, { persist: false })
+    failing.start([
+      {
+        element: () => {
+          throw new Error('Not rendered')
+        },
+        note: 'Broken',
+      },
+      { element: '#profile', note: 'Profile!' },
+    ])
+    expect(failing.currentStep).toBe(1)
+    expect(warn).toHaveBeenCalledTimes(3)
+    failing.destroy()
+    flow?.destroy()
+    warn.mockRestore()
+  })
+
+  it('shows url steps with query strings on the page they point to', () => {
+    history.pushState(null, '', '/profile?tab=1')
+    const storage = createMemoryStorage()
+    const state: PersistedFlow = {
+      id: 'tour',
+      step: 0,
+      steps: [
+        { element: '#invite-btn', note: 'Invite!', url: '/profile?tab=1' },
+        {
+          element: '#profile',
+          note: 'Profile!',
+          url: `${location.origin}/profile?tab=1#top`,
+        },
+      ],
+      pointerOptions: {},
+      flowOptions: {},
+    }
+    storage.setItem('pointerjs:flow:tour', JSON.stringify(state))
+    const navigate = vi.fn()
+    const flow = resumeOnboarding({ id: 'tour', persist: storage, navigate })
+    btn.click()
+    expect(flow?.currentStep).toBe(1)
+    profile.click()
+    expect(flow?.status).toBe('completed')
+    expect(navigate).not.toHaveBeenCalled()
+    history.pushState(null, '', '/')
+  })
+})
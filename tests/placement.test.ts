@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { computePlacement, validateTour } from '../src'
+
+const viewport = { width: 1000, height: 800 }
+const note = { width: 200, height: 100 }
+const target = { x: 400, y: 300, width: 100, height: 40 }
+
+describe('computePlacement', () => {
+  it('places the pointer at the bottom-right corner by default', () => {
+    const result = computePlacement({ target, note, viewport, pointerSize: 20 })
+    expect(result.side).toBe('bottom')
+    expect(result.pointer).toEqual({ x: 480, y: 348 })
+    expect(result.note).toEqual({ x: 300, y: 372 })
+    expect(result.flipY).toBe(false)
+  })
+
+  it('honors sides and alignments', () => {
+    const left = computePlacement({
+      target,
+      note,
+      viewport,
+      pointerSize: 20,
+      placement: 'left-start',
+    })
+    expect(left.side).toBe('left')
+    expect(left.pointer).toEqual({ x: 372, y: 300 })
+    expect(left.note).toEqual({ x: 168, y: 300 })
+    expect(left.flipX).toBe(true)
+
+    const top = computePlacement({
+      target,
+      note,
+      viewport,
+      pointerSize: 20,
+      placement: 'top',
+    })
+    expect(top.pointer).toEqual({ x: 440, y: 272 })
+    expect(top.note).toEqual({ x: 350, y: 168 })
+    expect(top.flipY).toBe(true)
+  })
+
+  it('flips to the opposite side when there is no room', () => {
+    const result = computePlacement({
+      target: { ...target, y: 700 },
+      note,
+      viewport,
+      pointerSize: 20,
+      placement: 'bottom',
+    })
+    expect(result.side).toBe('top')
+  })
+
+  it('picks the side with room in auto mode', () => {
+    const result = computePlacement({
+      target: { x: 0, y: 0, width: 100, height: 790 },
+      note,
+      viewport,
+      pointerSize: 20,
+      placement: 'auto',
+    })
+    expect(result.side).toBe('right')
+  })
+
+  it('shifts the note to stay on screen', () => {
+    const result = computePlacement({
+      target: { x: 950, y: 300, width: 40, height: 40 },
+      note,
+      viewport,
+      pointerSize: 20,
+      placement: 'bottom-start',
+    })
+    expect(result.note.x).toBe(1000 - 200 - 8)
+  })
+})
+
+describe('Step placement', () => {
+  it('validates placements in tour definitions', () => {
+    const steps = [{ element: '#a', note: 'A', placement: 'middle' }]
+    expect(validateTour({ steps })).toEqual([
+      expect.stringContaining('steps[0].placement: must be one of'),
+    ])
+  })
+})
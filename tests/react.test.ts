@@ -0,0 +1,125 @@
+import { act, createElement, StrictMode, useRef } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { getTourState } from '../src'
+import {
+  OnboardingProvider,
+  useOnboarding,
+  type OnboardingControls,
+} from '../src/react'
+
+Reflect.set(globalThis, 'IS_REACT_ACT_ENVIRONMENT', true)
+
+describe('React adapter', () => {
+  let root: Root
+  beforeEach(() => {
+    const host = document.createElement('div')
+    document.body.append(host)
+    root = createRoot(host)
+  })
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  function Tour({
+    name,
+    autoStart,
+    id,
+    onRender,
+  }: {
+    name: string
+    autoStart?: boolean
+    id?: string
+    onRender: (controls: OnboardingControls) => void
+  }) {
+    const button = useRef<HTMLButtonElement>(null)
+    const controls = useOnboarding(
+      [
+        { element: button, note: name },
+        { element: button, note: `${name} again` },
+      ],
+      { autoStart, flowOptions: { persist: false, id, showOnce: true } },
+    )
+    onRender(controls)
+    return createElement('button', { ref: button }, name)
+  }
+
+  it('starts with the component, resolves refs and cancels on unmount', async () => {
+    let controls!: OnboardingControls
+    await act(() =>
+      root.render(
+        createElement(Tour, {
+          name: 'Save',
+          autoStart: true,
+          onRender: (value) => (controls = value),
+        }),
+      ),
+    )
+    const { flow } = controls
+    expect(controls.status).toBe('running')
+    // Steps advance on clicks on their element, found through the ref
+    await act(() => document.querySelector('button')!.click())
+    expect(controls.currentStep).toBe(1)
+
+    await act(() => root.unmount())
+    expect(flow.status).toBe('cancelled')
+    expect(document.querySelector('.pointerjs')).toBeNull()
+  })
+
+  it('keeps showOnce tours through StrictMode remounts', async () => {
+    localStorage.clear()
+    let controls!: OnboardingControls
+    // Returning a promise keeps the watcher's update for the run cancelled by
+    // the first unmount inside act
+    await act(() => {
+      root.render(
+        createElement(
+          StrictMode,
+          null,
+          createElement(Tour, {
+            name: 'Save',
+            autoStart: true,
+            id: 'tour',
+            onRender: (value) => (controls = value),
+          }),
+        ),
+      )
+      return Promise.resolve()
+    })
+    // Unmounting is not a dismissal, so the remount starts the tour again
+    expect(controls.status).toBe('running')
+    expect(getTourState('tour')?.dismissedAt).toBeUndefined()
+    await act(() => root.unmount())
+    expect(getTourState('tour')?.dismissedAt).toBeUndefined()
+  })
+
+  it('shares one flow below a provider', async () => {
+    const controls: Record<string, OnboardingControls> = {}
+    const render = (names: string[]) =>
+      act(() =>
+        root.render(
+          createElement(
+            OnboardingProvider,
+            { flowOptions: { persist: false } },
+            names.map((name) =>
+              createElement(Tour, {
+                key: name,
+                name,
+                onRender: (value) => (controls[name] = value),
+              }),
+            ),
+          ),
+        ),
+      )
+    await render(['Save', 'Share'])
+    expect(controls.Save.flow).toBe(controls.Share.flow)
+
+    await act(() => controls.Share.start())
+    expect(controls.Share.status).toBe('running')
+    // Unmounting a component only stops the flow if it runs its steps
+    await render(['Share'])
+    expect(controls.Share.flow.status).toBe('running')
+    await act(() => root.unmount())
+    expect(controls.Share.flow.status).toBe('cancelled')
+  })
+})
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FlowManager } from '../src'
+
+describe('Scroll lock and interaction', () => {
+  let panel: HTMLDivElement
+  let target: HTMLButtonElement
+  let other: HTMLButtonElement
+  let flow: FlowManager
+  beforeEach(() => {
+    panel = document.createElement('div')
+    panel.id = 'panel'
+    target = document.createElement('button')
+    target.id = 'target'
+    other = document.createElement('button')
+    panel.append(target, other)
+    document.body.append(panel)
+  })
+  afterEach(() => {
+    flow.destroy()
+    document.body.innerHTML = ''
+    document.body.style.overflow = ''
+  })
+
+  const steps = [{ element: '#target', note: 'Hi', advanceOn: 'manual' }]
+
+  it('restores the original overflow after restarts', () => {
+    document.body.style.overflow = 'auto'
+    flow = new FlowManager({}, { persist: false })
+    flow.start(steps)
+    expect(document.body.style.overflow).toBe('hidden')
+    flow.start(steps)
+    flow.stop()
+    expect(document.body.style.overflow).toBe('auto')
+  })
+
+  it('locks a custom container or nothing', () => {
+    flow = new FlowManager({}, { persist: false, scrollLock: '#panel' })
+    flow.start(steps)
+    expect(panel.style.overflow).toBe('hidden')
+    expect(document.body.style.overflow).toBe('')
+    flow.stop()
+    expect(panel.style.overflow).toBe('')
+
+    flow.destroy()
+    flow = new FlowManager({}, { persist: false, scrollLock: false })
+    flow.start(steps)
+    expect(document.body.style.overflow).toBe('')
+  })
+
+  it('only lets clicks through to the target and the note', () => {
+    flow = new FlowManager({}, { persist: false, interaction: 'target' })
+    const onTarget = vi.fn()
+    const onOther = vi.fn()
+    target.addEventListener('click', onTarget)
+    other.addEventListener('click', onOther)
+    flow.start(steps)
+
+    target.click()
+    other.click()
+    expect(onTarget).toHaveBeenCalledTimes(1)
+    expect(onOther).not.toHaveBeenCalled()
+
+    const note = (flow as any).pointer.noteEl as HTMLElement
+    const onNote = vi.fn()
+    note.addEventListener('click', onNote)
+    note.click()
+    expect(onNote).toHaveBeenCalled()
+
+    flow.stop()
+    other.click()
+    expect(onOther).toHaveBeenCalledTimes(1)
+  })
+})
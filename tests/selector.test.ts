@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getSelector, queryDeep, Recorder } from '../src'
+
+describe('getSelector', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  function expectUnique(el: Element, expected: string) {
+    const selector = getSelector(el)
+    expect(selector).toBe(expected)
+    expect(queryDeep(selector)).toBe(el)
+  }
+
+  it('prefers stable ids and test attributes', () => {
+    document.body.innerHTML = `
+      <button id="save">Save</button>
+      <button id="ember123" data-testid="cancel">Cancel</button>
+      <input id="my.field" />
+      <span data-cy="label"></span><span data-cy="label"></span>
+    `
+    const [save, cancel] = Array.from(document.querySelectorAll('button'))
+    expectUnique(save, '#save')
+    expectUnique(cancel, '[data-testid="cancel"]')
+    expectUnique(document.querySelector('input')!, '[id="my.field"]')
+    expectUnique(document.querySelectorAll('span')[1], 'span:nth-of-type(2)')
+  })
+
+  it('builds the shortest path from an anchor', () => {
+    document.body.innerHTML = `
+      <nav id="menu"><ul><li><a>One</a></li><li><a>Two</a></li></ul></nav>
+      <main><section><p>First</p><p>Second</p></section></main>
+    `
+    expectUnique(
+      document.querySelectorAll('a')[1],
+      '#menu > ul > li:nth-of-type(2) > a',
+    )
+    expectUnique(document.querySelectorAll('p')[1], 'p:nth-of-type(2)')
+  })
+
+  it('chains selectors through shadow roots and iframes', () => {
+    const host = document.createElement('my-app')
+    host.id = 'app'
+    const button = document.createElement('button')
+    button.dataset.testid = 'save'
+    host.attachShadow({ mode: 'open' }).append(button)
+    const frame = document.createElement('iframe')
+    frame.dataset.testid = 'editor'
+    document.body.append(host, frame)
+    const toolbar = frame.contentDocument!.createElement('div')
+    frame.contentDocument!.body.append(toolbar)
+
+    expectUnique(button, '#app >>> [data-testid="save"]')
+    expectUnique(toolbar, '[data-testid="editor"] >>> div')
+  })
+})
+
+describe('Recorder', () => {
+  it('records clicked elements as steps', async () => {
+    document.body.innerHTML = '<a id="docs" href="#docs">Docs</a>'
+    const link = document.querySelector('a')!
+    const onClick = vi.fn()
+    link.addEventListener('click', onClick)
+    const recorder = new Recorder({ prompt: () => 'Read the docs' })
+    const step = vi.fn()
+    recorder.on('step', step)
+    recorder.start()
+
+    link.click()
+    await Promise.resolve()
+    expect(onClick).not.toHaveBeenCalled()
+    expect(step).toHaveBeenCalledWith(
+      { element: '#docs', note: 'Read the docs' },
+      0,
+    )
+    expect(JSON.parse(recorder.export())).toEqual([
+      { element: '#docs', note: 'Read the docs' },
+    ])
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(recorder.recording).toBe(false)
+    link.click()
+    expect(onClick).toHaveBeenCalled()
+    recorder.destroy()
+    document.body.innerHTML = ''
+  })
+
+  it('asks for notes with a built-in input', async () => {
+    document.body.innerHTML = '<button id="save">Save</button>'
+    const recorder = new Recorder()
+    recorder.start()
+    const root = document.querySelector('.pointerjs-recorder')!.shadowRoot!
+    const input = root.querySelector('input')!
+    const press = (key: string) =>
+      input.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, composed: true }),
+      )
+
+    document.querySelector('button')!.click()
+    expect(root.querySelector('label')?.textContent).toBe('Note for #save')
+    press('Escape')
+    await Promise.resolve()
+    expect(recorder.steps).toEqual([])
+    expect(recorder.recording).toBe(true)
+
+    document.querySelector('button')!.click()
+    input.value = 'Save often'
+    press('Enter')
+    await Promise.resolve()
+    expect(recorder.steps).toEqual([{ element: '#save', note: 'Save often' }])
+    recorder.destroy()
+    document.body.innerHTML = ''
+  })
+
+  it('records clicks in iframes and survives failing prompts', async () => {
+    const frame = document.createElement('iframe')
+    document.body.append(frame)
+    const frameDoc = frame.contentDocument!
+    frameDoc.body.innerHTML = '<button id="pay">Pay</button>'
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    let fail = true
+    const recorder = new Recorder({
+      prompt: () => (fail ? Promise.reject(new Error('Closed')) : 'Pay here'),
+    })
+    recorder.start()
+    const button = frameDoc.querySelector('button')!
+
+    button.click()
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled())
+    fail = false
+    button.click()
+    await vi.waitFor(() =>
+      expect(recorder.steps).toEqual([
+        { element: 'iframe >>> #pay', note: 'Pay here' },
+      ]),
+    )
+    recorder.destroy()
+    warn.mockRestore()
+    document.body.innerHTML = ''
+  })
+})
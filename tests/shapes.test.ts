@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Pointer, registerPointerShape } from '../src'
+
+describe('Pointer shapes', () => {
+  let pointer: Pointer
+  afterEach(() => {
+    pointer.destroy()
+  })
+
+  function getShapeEl() {
+    return (pointer as any).shadowRoot.querySelector(
+      '.pointer-shape',
+    ) as HTMLElement
+  }
+
+  it('renders registered shapes with their hotspot', () => {
+    registerPointerShape('pin', {
+      content: '/pin.png',
+      hotspot: { x: 0.5, y: 1 },
+    })
+    pointer = new Pointer({ pointerStyle: 'pin', pointerSize: 20 })
+    const img = getShapeEl().querySelector('img')!
+    expect(img.getAttribute('src')).toBe('/pin.png')
+    // The hotspot sits on the pointer position
+    expect(getShapeEl().style.transform).toBe('translate(-10px, -20px)')
+  })
+
+  it('falls back to the arrow for unknown styles', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    pointer = new Pointer({ pointerStyle: 'nope' })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"nope"'))
+    expect(getShapeEl().querySelector('svg')).not.toBeNull()
+    warn.mockRestore()
+  })
+
+  it('switches shapes per movement and rotates towards the target', async () => {
+    pointer = new Pointer({ pointerSize: 20, animationSpeed: 10, rotate: true })
+    const target = document.createElement('button')
+    document.body.append(target)
+    vi.spyOn(target, 'getBoundingClientRect').mockReturnValue({
+      top: 100,
+      bottom: 120,
+      left: 100,
+      right: 200,
+    } as DOMRect)
+    const node = document.createElement('i')
+    await pointer.moveToElement(target, undefined, false, {
+      pointerStyle: { content: () => node, direction: -90 },
+    })
+    expect(getShapeEl().firstChild).toBe(node)
+    expect(getShapeEl().style.transform).toMatch(/rotate\(.+deg\)/)
+
+    await pointer.moveToElement(target)
+    expect(getShapeEl().querySelector('svg')).not.toBeNull()
+    target.remove()
+  })
+})
@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { createElement } from 'react'
+import { renderToString } from 'react-dom/server'
+import { describe, expect, it, vi } from 'vitest'
+import { createSSRApp, defineComponent, h } from 'vue'
+import { renderToString as renderVueToString } from 'vue/server-renderer'
+import { FlowManager, Hints, Pointer, startOnboarding } from '../src'
+import * as react from '../src/react'
+import * as vue from '../src/vue'
+
+describe('server-side rendering', () => {
+  it('creates flows without the DOM and explains browser-only calls', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const flow = new FlowManager({}, { id: 'tour' })
+    flow.stop()
+    expect(flow.status).toBe('cancelled')
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+
+    expect(() => new Pointer()).toThrow(
+      '[PointerJS] Pointer needs a browser environment.',
+    )
+    expect(() => new Hints()).toThrow(/Hints needs a browser/)
+    expect(() => flow.start([{ element: '#a', note: 'A' }])).toThrow(
+      /FlowManager\.start needs a browser/,
+    )
+    expect(() => startOnboarding([{ element: '#a', note: 'A' }])).toThrow(
+      /startOnboarding needs a browser/,
+    )
+  })
+
+  it('renders components using the adapters', async () => {
+    function Page() {
+      const { status } = react.useOnboarding([{ element: '#a', note: 'A' }], {
+        autoStart: true,
+      })
+      return createElement('p', null, status)
+    }
+    const html = renderToString(
+      createElement(react.OnboardingProvider, null, createElement(Page)),
+    )
+    expect(html).toBe('<p>idle</p>')
+
+    const VuePage = defineComponent({
+      setup() {
+        const { status } = vue.useOnboarding([{ element: '#a', note: 'A' }], {
+          autoStart: true,
+        })
+        return () => h('p', status.value)
+      },
+    })
+    const app = createSSRApp({
+      render: () => h(vue.OnboardingProvider, null, () => h(VuePage)),
+    })
+    expect(await renderVueToString(app)).toContain('<p>idle</p>')
+  })
+})
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Pointer } from '../src'
+
+describe('Theming', () => {
+  let pointer: Pointer
+  afterEach(() => {
+    pointer.destroy()
+  })
+
+  function getRoot() {
+    return (pointer as any).shadowRoot as ShadowRoot
+  }
+
+  it('exposes custom properties and parts', () => {
+    pointer = new Pointer({ color: '#00C853' })
+    const css = getRoot().querySelector('style')!.textContent
+    expect(css).toContain('--pointerjs-color: #00C853')
+    expect(css).toContain('background: var(--pointerjs-note-background)')
+    expect(getRoot().querySelector('[part="pointer"]')).not.toBeNull()
+    expect(getRoot().querySelector('[part="note"]')).not.toBeNull()
+    expect(getRoot().host.classList.contains('pointerjs')).toBe(true)
+  })
+
+  it('applies theme presets and extra stylesheets', () => {
+    pointer = new Pointer({
+      theme: 'auto',
+      stylesheet: '.note { border-radius: 0; }',
+    })
+    const [style, extra] = getRoot().querySelectorAll('style')
+    expect(style.textContent).toContain('--pointerjs-note-background: #fff')
+    expect(style.textContent).toContain('@media (prefers-color-scheme: dark)')
+    expect(extra.textContent).toBe('.note { border-radius: 0; }')
+  })
+
+  it('updates options at runtime', () => {
+    pointer = new Pointer()
+    expect((pointer as any).overlay).toBeNull()
+    pointer.setOptions({ color: '#FF0000', theme: 'dark', overlay: true })
+    const css = getRoot().querySelector('style')!.textContent
+    expect(css).toContain('--pointerjs-color: #FF0000')
+    expect(css).toContain('--pointerjs-note-background: #1f2933')
+    expect((pointer as any).overlay).not.toBeNull()
+    expect(getRoot().querySelector('[part="overlay"]')).not.toBeNull()
+
+    pointer.setOptions({ overlay: false })
+    expect((pointer as any).overlay).toBeNull()
+    expect(getRoot().querySelector('[part="overlay"]')).toBeNull()
+  })
+})
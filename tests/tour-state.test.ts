@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createMemoryStorage,
+  FlowManager,
+  getTourState,
+  hasCompleted,
+  resetTour,
+  resumeOnboarding,
+  startOnboarding,
+  TourStateStore,
+  type OnboardingStep,
+} from '../src'
+
+describe('TourStateStore', () => {
+  it('updates, queries and resets tour states', () => {
+    const store = new TourStateStore(createMemoryStorage())
+    expect(store.get('setup')).toBeNull()
+    store.update('setup', { seen: true, lastStep: 1 })
+    expect(store.get('setup')).toEqual({
+      seen: true,
+      completed: false,
+      lastStep: 1,
+    })
+    store.update('setup', { completed: true })
+    store.update('billing', { seen: true })
+    expect(store.hasCompleted('setup')).toBe(true)
+    store.reset('setup')
+    expect(store.get('setup')).toBeNull()
+    expect(store.get('billing')).not.toBeNull()
+    store.reset()
+    expect(store.get('billing')).toBeNull()
+  })
+})
+
+describe('Flow completion tracking', () => {
+  let btn: HTMLButtonElement
+  let profile: HTMLButtonElement
+  const steps: OnboardingStep[] = [
+    { element: '#invite-btn', note: 'Invite!' },
+    { element: '#profile', note: 'Profile!' },
+  ]
+  beforeEach(() => {
+    btn = document.createElement('button')
+    btn.id = 'invite-btn'
+    profile = document.createElement('button')
+    profile.id = 'profile'
+    document.body.append(btn, profile)
+  })
+  afterEach(() => {
+    resetTour()
+    btn.remove()
+    profile.remove()
+  })
+
+  it('records progress and shows completed tours once', () => {
+    const options = { id: 'setup', persist: false, showOnce: true } as const
+    const flow = new FlowManager({}, options)
+    flow.start(steps)
+    expect(getTourState('setup')).toMatchObject({ seen: true, lastStep: 0 })
+    btn.click()
+    profile.click()
+    expect(hasCompleted('setup')).toBe(true)
+
+    const again = new FlowManager({}, options)
+    again.start(steps)
+    expect(again.status).toBe('cancelled')
+
+    // A new version is shown again
+    const updated = new FlowManager({}, { ...options, version: 2 })
+    updated.start(steps)
+    expect(updated.status).toBe('running')
+    updated.destroy()
+    expect(getTourState('setup')).toMatchObject({ dismissedAt: 0, version: 2 })
+  })
+
+  it('resumes from the last step shown', () => {
+    const options = { id: 'setup', persist: false, resumeFromLastStep: true }
+    const flow = new FlowManager({}, options)
+    flow.start(steps)
+    btn.click()
+    flow.destroy()
+
+    const again = new FlowManager({}, options)
+    again.start(steps)
+    expect(again.currentStep).toBe(1)
+    again.destroy()
+  })
+
+  it('only remembers stops by the user as dismissals', () => {
+    const options = { id: 'setup', persist: false, showOnce: true } as const
+    const flow = startOnboarding(steps, {}, undefined, options)
+    flow.start(steps)
+    const other = startOnboarding(steps, {}, undefined, { persist: false })
+    expect(flow.status).toBe('cancelled')
+    expect(getTourState('setup')?.dismissedAt).toBeUndefined()
+
+    const again = startOnboarding(steps, {}, undefined, options)
+    expect(again.status).toBe('running')
+    expect(other.status).toBe('cancelled')
+    again.stop()
+    expect(getTourState('setup')).toMatchObject({ dismissedAt: 0 })
+  })
+
+  it('does not remember resumed flows without an id', () => {
+    const storage = createMemoryStorage()
+    const flow = new FlowManager({}, { persist: storage })
+    flow.start(steps)
+    const saved = storage.getItem('pointerjs:flow')!
+    expect(JSON.parse(saved).flowOptions.id).toBeUndefined()
+    // Left for another page
+    flow.destroy()
+    storage.setItem('pointerjs:flow', saved)
+
+    const resumed = resumeOnboarding({ persist: storage })!
+    resumed.next()
+    resumed.stop()
+    expect(getTourState('default')).toBeNull()
+  })
+})
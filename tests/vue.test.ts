@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createApp, defineComponent, h, nextTick, ref } from 'vue'
+import { useOnboarding, type OnboardingControls } from '../src/vue'
+
+describe('Vue adapter', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('starts with the component, resolves template refs and cancels on unmount', async () => {
+    let controls!: OnboardingControls
+    const Tour = defineComponent({
+      setup() {
+        const button = ref<HTMLElement | null>(null)
+        controls = useOnboarding(
+          [
+            { element: button, note: 'Save' },
+            { element: button, note: 'Save again' },
+          ],
+          { autoStart: true, flowOptions: { persist: false } },
+        )
+        return () => h('button', { ref: button }, 'Save')
+      },
+    })
+    const host = document.createElement('div')
+    document.body.append(host)
+    const app = createApp(Tour)
+    app.mount(host)
+    expect(controls.status.value).toBe('running')
+
+    // Steps advance on clicks on their element, found through the template ref
+    document.querySelector('button')!.click()
+    await nextTick()
+    expect(controls.currentStep.value).toBe(1)
+
+    app.unmount()
+    expect(controls.flow.status).toBe('cancelled')
+    expect(document.querySelector('.pointerjs')).toBeNull()
+  })
+})
@@ -0,0 +1,93 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { waitForElement } from '../src'
+import { FlowManager } from '../src/flow'
+
+function mountLater(id: string, delay: number) {
+  setTimeout(() => {
+    const el = document.createElement('button')
+    el.id = id
+    document.body.append(el)
+  }, delay)
+}
+
+describe('waitForElement', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('resolves when the element mounts later', async () => {
+    mountLater('late', 20)
+    const el = await waitForElement('#late', { timeout: 1000 })
+    expect(el?.id).toBe('late')
+  })
+
+  it('supports polling', async () => {
+    mountLater('polled', 20)
+    const el = await waitForElement('#polled', {
+      strategy: 'poll',
+      interval: 5,
+      timeout: 1000,
+    })
+    expect(el?.id).toBe('polled')
+  })
+
+  it('resolves null on timeout or abort', async () => {
+    expect(await waitForElement('#never', { timeout: 10 })).toBeNull()
+    const controller = new AbortController()
+    const pending = waitForElement(
+      '#never',
+      { timeout: 1000 },
+      controller.signal,
+    )
+    controller.abort()
+    expect(await pending).toBeNull()
+  })
+
+  it('rejects when a resolver throws while waiting', async () => {
+    let calls = 0
+    const resolver = () => {
+      if (++calls > 1) throw new Error('Gone')
+      return null
+    }
+    await expect(
+      waitForElement(resolver, { timeout: 1000, interval: 10 }),
+    ).rejects.toThrow('Gone')
+  })
+})
+
+describe('FlowManager missing elements', () => {
+  let flow: FlowManager
+  afterEach(() => {
+    flow.stop()
+    document.body.innerHTML = ''
+  })
+
+  it('shows a step whose element mounts late', async () => {
+    const shown = vi.fn()
+    flow = new FlowManager({}, { persist: false })
+    flow.on('stepShown', shown)
+    flow.start([{ element: '#late', note: 'Loaded!' }])
+    mountLater('late', 20)
+    await vi.waitFor(() => expect(shown).toHaveBeenCalledTimes(1))
+    expect(shown.mock.calls[0][0].element.id).toBe('late')
+  })
+
+  it('applies the missing element policy', async () => {
+    const error = vi.fn()
+    const shown = vi.fn()
+    flow = new FlowManager({}, { persist: false, wait: { timeout: 10 } })
+    flow.on('error', error)
+    flow.on('stepShown', shown)
+    flow.start([
+      { element: '#gone', note: 'Centered', missing: 'center' },
+      { element: '#gone', note: 'Broken', missing: 'error' },
+    ])
+    await vi.waitFor(() => expect(shown).toHaveBeenCalledTimes(1))
+    expect(shown.mock.calls[0][0].element).toBeNull()
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }))
+    await vi.waitFor(() => expect(error).toHaveBeenCalledTimes(1))
+    expect(error.mock.calls[0][0].error.message).toContain('#gone')
+  })
+})
@@ -1,10 +1,19 @@
 import { defineConfig } from 'tsdown'
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  outDir: 'dist',
-  platform: 'neutral',
-  format: ['esm', 'cjs', 'iife'],
-  dts: true,
-  globalName: 'PointerJS',
-})
+export default defineConfig([
+  {
+    // Adapters share chunks with the core, so flows stay the same classes
+    entry: ['src/index.ts', 'src/react.ts', 'src/vue.ts'],
+    outDir: 'dist',
+    platform: 'neutral',
+    format: ['esm', 'cjs'],
+    dts: true,
+  },
+  {
+    entry: ['src/index.ts'],
+    outDir: 'dist',
+    platform: 'neutral',
+    format: ['iife'],
+    globalName: 'PointerJS',
+  },
+])